@@ -16,14 +16,15 @@ const __dirname = path.dirname(__filename);
 const app = express();
 const PORT = process.env.PORT || 8765;
 
-// Body parsing middleware to access request bodies
-app.use(express.json());
+// Body parsing middleware to access request bodies; the limit leaves room
+// for base64-encoded image attachments
+app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true }));
 
 // CORS middleware with specific settings
 app.use(cors({
   origin: '*', // Allow all origins
-  methods: ['GET', 'POST', 'OPTIONS'],
+  methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization'],
   credentials: true,
   preflightContinue: false,
@@ -158,6 +159,34 @@ app.use('/api', createProxyMiddleware({
       return '/api/chat';
     }
     
+    // For the show endpoint, we need special handling
+    if (path === '/api/show') {
+      // Ollama native API for model details
+      console.log(`Proxying show request to: /api/show`);
+      return '/api/show';
+    }
+    
+    // Used by the connection check in the UI
+    if (path === '/api/version') {
+      return path;
+    }
+    
+    // Embeddings for document search
+    if (path === '/api/embed') {
+      return path;
+    }
+    
+    // Models loaded in memory
+    if (path === '/api/ps') {
+      return path;
+    }
+    
+    // Model management endpoints are passed through unchanged as well
+    if (['/api/pull', '/api/delete', '/api/copy'].includes(path)) {
+      console.log(`Proxying model management request to: ${path}`);
+      return path;
+    }
+    
     // For other API endpoints, handle normally
     const strippedPath = path.replace(/^\/api/, '');
     
@@ -241,6 +270,11 @@ app.use('/v1', createProxyMiddleware({
       console.log(`Proxying OpenAI-compatible request to: /v1/chat/completions`);
       return '/v1/chat/completions';
     }
+
+    // The OpenAI-compatible provider lists models from /v1/models
+    if (path === '/v1/models') {
+      return path;
+    }
     
     // For other v1 endpoints
     const strippedPath = path.replace(/^\/v1/, '');
@@ -0,0 +1,29 @@
+import { imageDataUrl } from '../utils/images';
+
+interface AttachmentTrayProps {
+  images: string[];
+  onRemove: (index: number) => void;
+}
+
+// Thumbnails of the images waiting to be sent with the next message
+export function AttachmentTray({ images, onRemove }: AttachmentTrayProps) {
+  if (images.length === 0) return null;
+
+  return (
+    <div className="attachment-tray">
+      {images.map((image, index) => (
+        <div key={index} className="attachment">
+          <img src={imageDataUrl(image)} alt={`Attachment ${index + 1}`} className="attachment-image" />
+          <button
+            type="button"
+            onClick={() => onRemove(index)}
+            className="attachment-remove"
+            aria-label={`Remove attachment ${index + 1}`}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,36 +1,147 @@
-import { useState, useEffect, useRef } from 'react';
-import { ollamaService } from '../services/ollamaService';
+import { Fragment, useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { ollamaService, isAbortError, isConnectionError, pickGenerationStats, DEFAULT_MODEL_OPTIONS } from '../services/ollamaService';
+import { DEFAULT_PROVIDER_ID, PROVIDERS, getProvider, isProviderId } from '../services/providers';
+import type { ChatProvider, ProviderId } from '../services/providers';
+import { connectionService } from '../services/connectionService';
+import type { ConnectionProfile, ConnectionStatus } from '../services/connectionService';
+import { chatStorage } from '../services/chatStorage';
+import { WINDOW_ID, tabSync } from '../services/tabSync';
+import type { ChatResponse, ModelDetails } from '../services/ollamaService';
+import { toolLoop } from '../services/toolLoop';
+import type { ToolContext, ToolStep } from '../services/toolRegistry';
+import { DEFAULT_CONTEXT_STRATEGY, contextManager } from '../services/contextManager';
+import { documentIndex } from '../services/documentIndex';
+import type { TabDocument } from '../services/documentIndex';
+import type { Persona, SavedPrompt, Tab, TabSettings } from '../types/chat';
+import {
+  appendMessage,
+  createId,
+  getActivePath,
+  getPathTo,
+  getSiblingIds,
+  removeLeaf,
+  selectBranch,
+  updateNode
+} from '../utils/messageTree';
+import { SystemPromptPanel } from './SystemPromptPanel';
+import { DocumentPanel } from './DocumentPanel';
+import { PersonaManager } from './PersonaManager';
+import { PromptManager } from './PromptManager';
+import { PromptVariablesForm } from './PromptVariablesForm';
+import { SlashMenu } from './SlashMenu';
+import { SyncConflictNotice } from './SyncConflictNotice';
+import { GenerationSettings } from './GenerationSettings';
+import { MessageItem } from './MessageItem';
+import { ImportExportMenu } from './ImportExportMenu';
+import { ModelManager } from './ModelManager';
+import { RunningModels } from './RunningModels';
+import { ConnectionManager } from './ConnectionManager';
+import { SearchPanel } from './SearchPanel';
+import { ContextMeter } from './ContextMeter';
+import { DEFAULT_CONTEXT_SIZE, parseModelParameters } from '../utils/modelOptions';
+import { TabBar } from './TabBar';
+import { TITLE_PROMPT, cleanTitle, nextDefaultTabName } from '../utils/tabNames';
+import { createSearchIndex } from '../utils/searchIndex';
+import type { SearchResult } from '../utils/searchIndex';
+import { AttachmentTray } from './AttachmentTray';
+import { ComparisonBar } from './ComparisonBar';
+import { ComparisonRow } from './ComparisonRow';
+import { defaultCompareModels, MIN_COMPARE_MODELS } from '../utils/comparison';
+import { ACCEPTED_IMAGE_TYPES, MAX_IMAGES_PER_MESSAGE, readImageFile } from '../utils/images';
+import { withRetry } from '../utils/retry';
+import { extractVariables } from '../utils/promptTemplates';
+import { findBuiltInCommand, getSlashSuggestions, parseSlashInput } from '../utils/slashCommands';
+import type { BuiltInCommandName, SlashSuggestion } from '../utils/slashCommands';
+import { exportTabToMarkdown, exportTabsToJson } from '../utils/conversationExport';
+import { downloadFile, toFileName } from '../utils/download';
+import { mergeTabs, restoreConflicts } from '../utils/tabMerge';
+import type { MergeConflict } from '../utils/tabMerge';
 import '../styles/chat.css';
 
 // Get environment variables
-const OLLAMA_API_URL = import.meta.env.VITE_OLLAMA_API_URL;
 const IS_PRODUCTION = import.meta.env.VITE_PROD === 'TRUE';
 
-// Storage keys
-const STORAGE_KEY_TABS = 'vibed_tabs';
-const STORAGE_KEY_ACTIVE_TAB = 'vibed_active_tab';
-const STORAGE_KEY_SELECTED_MODEL = 'vibed_selected_model';
+// Storage keys (chats themselves live in IndexedDB, see chatStorage)
+const STORAGE_KEY_PERSONAS = 'vibed_personas';
+const STORAGE_KEY_PROMPTS = 'vibed_prompts';
+
+// Automatic retries when the connection drops, waiting 1s, 2s, then 4s
+const CONNECTION_RETRIES = 3;
+const CONNECTION_RETRY_DELAY_MS = 1000;
+
+// A reply that is generating. Several can stream at once, e.g. one per
+// model in a comparison tab.
+interface ReplyStream {
+  tabId: string;
+  model: string;
+  notice?: string; // Shown instead of the generic status, e.g. while the model loads or a retry waits
+}
+
+// A reply another window is generating, mirrored here as it streams
+interface MirroredStream {
+  tabId: string;
+  windowId: string;
+}
+
+// Edits to a tab that clashed with another window's, kept until dismissed
+interface SyncConflict {
+  conflicts: MergeConflict[];
+  mine: Tab; // This window's version before the merge
+  remoteWins: boolean;
+}
+
+// Saved versions of a tab kept to merge against, by revision
+const MAX_TAB_SNAPSHOTS = 10;
+
+const rememberSnapshot = (snapshots: Map<string, Map<number, Tab>>, tab: Tab) => {
+  const tabSnapshots = snapshots.get(tab.id) ?? new Map<number, Tab>();
+  tabSnapshots.set(tab.revision ?? 0, tab);
+  if (tabSnapshots.size > MAX_TAB_SNAPSHOTS) {
+    tabSnapshots.delete(tabSnapshots.keys().next().value as number);
+  }
+  snapshots.set(tab.id, tabSnapshots);
+};
 
 // Default tab to use when no saved tabs exist
-const getDefaultTab = () => ({
+const getDefaultTab = (): Tab => ({
   id: `tab-${Date.now()}`,
   name: 'Chat 1',
-  messages: []
+  nodes: {},
+  rootIds: [],
+  systemPrompt: '',
+  createdAt: Date.now()
 });
 
-interface Message {
-  role: 'assistant' | 'user';
-  content: string;
-}
+// Starter personas offered until the user saves their own
+const DEFAULT_PERSONAS: Persona[] = [
+  {
+    id: 'persona-code-reviewer',
+    name: 'Code reviewer',
+    systemPrompt: 'You are a meticulous senior code reviewer. Point out bugs, edge cases and unclear naming, and suggest concrete fixes. Be direct and skip praise.'
+  },
+  {
+    id: 'persona-terse-translator',
+    name: 'Terse translator',
+    systemPrompt: 'Translate every message into English. Reply with the translation only, without explanations or notes.'
+  }
+];
 
-interface Tab {
-  id: string;
-  name: string;
-  messages: Message[];
-}
+// Starter prompts for the prompt library, typed as /summarize and /write-tests
+const DEFAULT_PROMPTS: SavedPrompt[] = [
+  {
+    id: 'prompt-summarize',
+    name: 'Summarize',
+    content: 'Summarize the following in {{length}} bullet points, keeping names and numbers:\n\n{{text}}'
+  },
+  {
+    id: 'prompt-write-tests',
+    name: 'Write tests',
+    content: 'Write unit tests with {{framework}} for the code below. Cover edge cases and failure paths.\n\n{{code}}'
+  }
+];
 
 // Helper for safely saving to localStorage
-const saveToLocalStorage = (key: string, value: any) => {
+const saveToLocalStorage = (key: string, value: unknown) => {
   try {
     localStorage.setItem(key, JSON.stringify(value));
     return true;
@@ -53,87 +164,477 @@ const loadFromLocalStorage = <T,>(key: string, defaultValue: T): T => {
   return defaultValue;
 };
 
+// Message shown in place of a reply that failed
+const describeError = (error: unknown): string => {
+  if (isConnectionError(error)) {
+    return 'Could not reach the server. Check that it is running and the connection settings are right.';
+  }
+  return error instanceof Error && error.message ? error.message : 'Something went wrong while generating the reply.';
+};
+
 export function Chat() {
-  // Initialize state directly from localStorage during initialization
+  // Chats are loaded from IndexedDB after the first render
   const [models, setModels] = useState<string[]>([]);
-  const [selectedModel, setSelectedModel] = useState<string>(
-    loadFromLocalStorage(STORAGE_KEY_SELECTED_MODEL, '')
-  );
-  const [tabs, setTabs] = useState<Tab[]>(
-    loadFromLocalStorage(STORAGE_KEY_TABS, [getDefaultTab()])
+  const [selectedModel, setSelectedModel] = useState('');
+  const [selectedProvider, setSelectedProvider] = useState<ProviderId>(DEFAULT_PROVIDER_ID);
+  const [tabs, setTabs] = useState<Tab[]>(() => [getDefaultTab()]);
+  const [activeTabId, setActiveTabId] = useState<string>(() => tabs[0].id);
+  const [storageStatus, setStorageStatus] = useState<'loading' | 'ready' | 'unavailable'>('loading');
+  const [storageWarning, setStorageWarning] = useState('');
+  const [personas, setPersonas] = useState<Persona[]>(
+    loadFromLocalStorage(STORAGE_KEY_PERSONAS, DEFAULT_PERSONAS)
   );
-  const [activeTabId, setActiveTabId] = useState<string>(
-    loadFromLocalStorage(STORAGE_KEY_ACTIVE_TAB, tabs[0]?.id || '')
+  const [showPersonaManager, setShowPersonaManager] = useState(false);
+  const [prompts, setPrompts] = useState<SavedPrompt[]>(
+    loadFromLocalStorage(STORAGE_KEY_PROMPTS, DEFAULT_PROMPTS)
   );
+  const [showPromptManager, setShowPromptManager] = useState(false);
+  const [promptToFill, setPromptToFill] = useState<SavedPrompt | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showModelManager, setShowModelManager] = useState(false);
+  const [showRunningModels, setShowRunningModels] = useState(false);
+  const [showConnectionManager, setShowConnectionManager] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  // Kept across openings of the search panel so it only re-indexes changes
+  const [searchIndex] = useState(createSearchIndex);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [connections, setConnections] = useState<ConnectionProfile[]>(() => connectionService.getProfiles());
+  const [activeConnectionId, setActiveConnectionId] = useState(() => connectionService.getActiveProfile().id);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('checking');
+  const [connectionError, setConnectionError] = useState('');
   const [input, setInput] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
+  const [attachments, setAttachments] = useState<string[]>([]);
+  const [attachmentError, setAttachmentError] = useState('');
+  const [commandError, setCommandError] = useState('');
+  const [slashIndex, setSlashIndex] = useState(0); // Highlighted entry of the slash menu
+  const [dismissedSlashInput, setDismissedSlashInput] = useState<string | null>(null); // Input the menu was closed for
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // /api/show details per model; null when they couldn't be loaded
+  const [modelDetails, setModelDetails] = useState<Record<string, ModelDetails | null>>({});
+  const [streams, setStreams] = useState<Record<string, ReplyStream>>({}); // By reply node ID
+  const abortControllersRef = useRef(new Map<string, AbortController>()); // By reply node ID
+  // Identifies the latest model list request, so a slow answer from a
+  // provider the user already switched away from is ignored
+  const modelsRequestRef = useRef(0);
+  // Last saved version of each tab, to only write tabs that actually changed
+  const savedTabsRef = useRef(new Map<string, Tab>());
+  // Latest tabs, for handling messages from other windows
+  const tabsRef = useRef(tabs);
+  // Tab versions that came from another window, which it has already saved
+  const remoteTabsRef = useRef(new WeakSet<Tab>());
+  // Tabs another window deleted, so this one doesn't delete them again
+  const remoteDeletedIdsRef = useRef(new Set<string>());
+  // Tab order last received from another window
+  const remoteTabOrderRef = useRef('');
+  const tabSnapshotsRef = useRef(new Map<string, Map<number, Tab>>());
+  // Replies that were generated in another window and mirrored here
+  const mirroredNodeIdsRef = useRef(new Set<string>());
+  const [mirroredStreams, setMirroredStreams] = useState<Record<string, MirroredStream>>({}); // By reply node ID
+  const [syncConflicts, setSyncConflicts] = useState<Record<string, SyncConflict>>({}); // By tab ID
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatInputRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Get active tab and messages
   const activeTab = tabs.find(tab => tab.id === activeTabId) || tabs[0];
-  const messages = activeTab?.messages || [];
+  // Kept stable between renders so the scroll effect below only runs when the conversation changes
+  const messages = useMemo(() => activeTab ? getActivePath(activeTab) : [], [activeTab]);
+  const activeStreamIds = Object.keys(streams).filter(nodeId => streams[nodeId].tabId === activeTab?.id);
+  const streamingIds = new Set(activeStreamIds);
+  const isLoading = activeStreamIds.length > 0;
+  const mirroredIds = new Set(Object.keys(mirroredStreams).filter(nodeId => mirroredStreams[nodeId].tabId === activeTab?.id));
+  const syncConflict = activeTab ? syncConflicts[activeTab.id] : undefined;
+  const streamNotice = activeStreamIds.map(nodeId => streams[nodeId].notice).find(Boolean);
+  const slashSuggestions = input === dismissedSlashInput ? [] : getSlashSuggestions(input, prompts, models);
+  const isComparison = !!activeTab?.compareModels;
+  const isStorageReady = storageStatus === 'ready';
+  const provider = getProvider(selectedProvider);
+  const activeConnection = connections.find(profile => profile.id === activeConnectionId) ?? connections[0];
+  const selectedDetails = provider.supportsModelManagement ? modelDetails[selectedModel] : null;
+  const selectedCapabilities = selectedDetails?.capabilities;
+  const lacksVision = attachments.length > 0 && !!selectedCapabilities && !selectedCapabilities.includes('vision');
+  // Context used by the latest reply on the visible branch
+  const lastStats = [...messages].reverse().find(message => message.stats?.prompt_eval_count !== undefined)?.stats;
+  const contextUsed = lastStats ? (lastStats.prompt_eval_count ?? 0) + (lastStats.eval_count ?? 0) : 0;
+  // The server's default context size is only known for Ollama
+  const modelContextSize = provider.supportsModelManagement
+    ? parseModelParameters(selectedDetails?.parameters).num_ctx ?? DEFAULT_CONTEXT_SIZE
+    : undefined;
+  const contextSize = activeTab?.options?.num_ctx ?? modelContextSize;
+  // Which messages the next request would leave out or send as a summary
+  const contextPlan = activeTab ? contextManager.plan(activeTab, messages, contextSize) : null;
+  const excludedIds = new Set(contextPlan?.excludedIds);
+  const summarizedIds = new Set(contextPlan?.summarizedIds);
 
-  // Save tabs to localStorage whenever they change
+  // Load saved chats, migrating old localStorage data on first run
   useEffect(() => {
-    console.log('Saving tabs to localStorage:', tabs);
-    saveToLocalStorage(STORAGE_KEY_TABS, tabs);
-  }, [tabs]);
+    let cancelled = false;
 
-  // Save active tab ID to localStorage whenever it changes
+    chatStorage.load()
+      .then(state => {
+        if (cancelled) return;
+
+        const loadedTabs = state.tabs.length > 0 ? state.tabs : [getDefaultTab()];
+        savedTabsRef.current = new Map(state.tabs.map(tab => [tab.id, tab]));
+        state.tabs.forEach(tab => rememberSnapshot(tabSnapshotsRef.current, tab));
+        setTabs(loadedTabs);
+        // Ensure activeTabId points to an existing tab
+        setActiveTabId(
+          loadedTabs.some(tab => tab.id === state.activeTabId) ? state.activeTabId : loadedTabs[0].id
+        );
+        // Prefer the provider and model recorded on the active tab
+        const activeLoadedTab = loadedTabs.find(tab => tab.id === state.activeTabId);
+        if (activeLoadedTab?.model) {
+          setSelectedProvider(activeLoadedTab.provider ?? DEFAULT_PROVIDER_ID);
+          setSelectedModel(activeLoadedTab.model);
+        } else {
+          setSelectedProvider(state.selectedProvider);
+          if (state.selectedModel) {
+            setSelectedModel(state.selectedModel);
+          }
+        }
+        setStorageStatus('ready');
+      })
+      .catch(error => {
+        console.error('Failed to load chats:', error);
+        setStorageStatus('unavailable');
+        setStorageWarning('Chat history could not be loaded, and new chats will not be saved in this browser.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Surface failed writes, most importantly a full storage quota
   useEffect(() => {
-    console.log('Saving active tab ID to localStorage:', activeTabId);
-    saveToLocalStorage(STORAGE_KEY_ACTIVE_TAB, activeTabId);
-  }, [activeTabId]);
+    return chatStorage.onError((_error, isQuotaError) => {
+      setStorageWarning(isQuotaError
+        ? 'Browser storage is full, so recent messages were not saved. Export and delete old chats to free up space.'
+        : 'Some changes could not be saved to browser storage.'
+      );
+    });
+  }, []);
 
-  // Save selected model to localStorage whenever it changes
+  // Save changed tabs; writes are debounced so streaming doesn't write on every
+  // token. Versions received from other windows are already saved.
   useEffect(() => {
-    if (selectedModel) {
-      console.log('Saving selected model to localStorage:', selectedModel);
-      saveToLocalStorage(STORAGE_KEY_SELECTED_MODEL, selectedModel);
+    tabsRef.current = tabs;
+    if (!isStorageReady) return;
+
+    const savedTabs = savedTabsRef.current;
+    tabs.forEach(tab => {
+      const saved = savedTabs.get(tab.id);
+      if (saved === tab || remoteTabsRef.current.has(tab)) return;
+      // New messages are written right away, so other windows have them before the reply streams in
+      if (!saved || Object.keys(tab.nodes).length > Object.keys(saved.nodes).length) {
+        chatStorage.scheduleTabSave(tab, 0);
+      } else {
+        chatStorage.scheduleTabSave(tab);
+      }
+    });
+    savedTabs.forEach((_tab, tabId) => {
+      if (!tabs.some(tab => tab.id === tabId) && !remoteDeletedIdsRef.current.has(tabId)) {
+        chatStorage.deleteTab(tabId);
+        tabSync.publish({ type: 'tab-deleted', tabId });
+      }
+    });
+
+    const tabOrder = tabs.map(tab => tab.id);
+    if (tabOrder.join() !== [...savedTabs.keys()].join() && tabOrder.join() !== remoteTabOrderRef.current) {
+      chatStorage.saveSetting('tabOrder', tabOrder);
+      tabSync.publish({ type: 'tab-order', tabOrder });
     }
-  }, [selectedModel]);
+    savedTabsRef.current = new Map(tabs.map(tab => [tab.id, tab]));
+  }, [tabs, isStorageReady]);
 
+  // Tell other windows about every saved tab
   useEffect(() => {
-    // Log loaded state for debugging
-    console.log('Initial state loaded:', {
-      tabs,
-      activeTabId,
-      selectedModel
+    return chatStorage.onTabSaved((tab, baseRevision) => {
+      rememberSnapshot(tabSnapshotsRef.current, tab);
+      tabSync.publish({ type: 'tab-saved', tab, baseRevision });
     });
-    
-    loadModels();
-    
-    // Ensure we have at least one tab
-    if (tabs.length === 0) {
-      const defaultTab = getDefaultTab();
-      setTabs([defaultTab]);
-      setActiveTabId(defaultTab.id);
+  }, []);
+
+  // Apply changes made in other windows. A tab this window hasn't changed
+  // since the other window's starting point is replaced; otherwise both
+  // versions are merged, and clashing edits are reported.
+  useEffect(() => {
+    if (!isStorageReady) return;
+
+    const replaceTab = (tab: Tab) => {
+      setTabs(prevTabs => prevTabs.some(candidate => candidate.id === tab.id)
+        ? prevTabs.map(candidate => candidate.id === tab.id ? tab : candidate)
+        : [...prevTabs, tab]
+      );
+    };
+
+    const receiveTab = (remote: Tab, baseRevision: number, windowId: string) => {
+      const local = tabsRef.current.find(tab => tab.id === remote.id);
+      const knownRevision = chatStorage.revisionOf(remote.id);
+      // A tab this window deleted, saved by a window that hadn't heard yet
+      if (!local && baseRevision > 0 && knownRevision === 0) return;
+
+      const hasLocalChanges = !!local && (
+        chatStorage.hasPendingSave(local.id) ||
+        (local !== savedTabsRef.current.get(local.id) && !remoteTabsRef.current.has(local))
+      );
+      const base = tabSnapshotsRef.current.get(remote.id)?.get(baseRevision);
+      chatStorage.acceptRevision(remote.id, remote.revision ?? 0);
+      rememberSnapshot(tabSnapshotsRef.current, remote);
+      remoteDeletedIdsRef.current.delete(remote.id);
+
+      if (!local || (!hasLocalChanges && baseRevision >= knownRevision)) {
+        remoteTabsRef.current.add(remote);
+        replaceTab(remote);
+        return;
+      }
+
+      // Both windows pick the same side of a conflict, so they end up with the same tab
+      const remoteWins = windowId > WINDOW_ID;
+      const { tab, conflicts } = mergeTabs(base, local, remote, {
+        remoteWins,
+        keepLocal: new Set(abortControllersRef.current.keys()),
+        keepRemote: mirroredNodeIdsRef.current
+      });
+      if (conflicts.length > 0) {
+        setSyncConflicts(prev => ({ ...prev, [tab.id]: { conflicts, mine: local, remoteWins } }));
+      }
+      if (tab !== local) {
+        replaceTab(tab);
+      }
+    };
+
+    const deleteRemoteTab = (tabId: string) => {
+      const tabIndex = tabsRef.current.findIndex(tab => tab.id === tabId);
+      // Keep a tab with unsaved edits; saving it brings it back in the other windows
+      if (tabIndex === -1 || chatStorage.hasPendingSave(tabId)) return;
+
+      const deleted = tabsRef.current[tabIndex];
+      abortControllersRef.current.forEach((controller, nodeId) => {
+        if (deleted.nodes[nodeId]) controller.abort();
+      });
+      remoteDeletedIdsRef.current.add(tabId);
+      const remaining = tabsRef.current.filter(tab => tab.id !== tabId);
+      const nextTabs = remaining.length > 0 ? remaining : [getDefaultTab()];
+      setTabs(prevTabs => {
+        const next = prevTabs.filter(tab => tab.id !== tabId);
+        return next.length > 0 ? next : nextTabs;
+      });
+      setActiveTabId(current => current === tabId ? nextTabs[Math.max(0, tabIndex - 1)].id : current);
+    };
+
+    const mirrorGeneration = (tabId: string, nodeId: string, content: string, windowId: string) => {
+      mirroredNodeIdsRef.current.add(nodeId);
+      setMirroredStreams(prev => prev[nodeId] ? prev : { ...prev, [nodeId]: { tabId, windowId } });
+      setTabs(prevTabs => prevTabs.map(tab => {
+        if (tab.id !== tabId || !tab.nodes[nodeId] || tab.nodes[nodeId].content === content) return tab;
+        const next = updateNode(tab, nodeId, { content });
+        // Unchanged tabs stay unsaved; the generating window saves the finished reply
+        if (tab === savedTabsRef.current.get(tabId) || remoteTabsRef.current.has(tab)) {
+          remoteTabsRef.current.add(next);
+        }
+        return next;
+      }));
+    };
+
+    const endMirroredStreams = (isEnded: (nodeId: string, stream: MirroredStream) => boolean) => {
+      setMirroredStreams(prev => Object.fromEntries(
+        Object.entries(prev).filter(([nodeId, stream]) => !isEnded(nodeId, stream))
+      ));
+    };
+
+    return tabSync.subscribe((message, windowId) => {
+      switch (message.type) {
+        case 'tab-saved':
+          receiveTab(message.tab, message.baseRevision, windowId);
+          break;
+        case 'tab-deleted':
+          deleteRemoteTab(message.tabId);
+          break;
+        case 'tab-order': {
+          remoteTabOrderRef.current = message.tabOrder.join();
+          const position = new Map(message.tabOrder.map((id, index) => [id, index]));
+          setTabs(prevTabs => [...prevTabs].sort((a, b) =>
+            (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity) || 0
+          ));
+          break;
+        }
+        case 'generation':
+          mirrorGeneration(message.tabId, message.nodeId, message.content, windowId);
+          break;
+        case 'generation-done':
+          endMirroredStreams(nodeId => nodeId === message.nodeId);
+          break;
+        case 'window-closed':
+          endMirroredStreams((_nodeId, stream) => stream.windowId === windowId);
+          break;
+      }
+    });
+  }, [isStorageReady]);
+
+  // Personas and saved prompts edited in another window
+  useEffect(() => {
+    const reload = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY_PERSONAS) {
+        setPersonas(loadFromLocalStorage(STORAGE_KEY_PERSONAS, DEFAULT_PERSONAS));
+      } else if (e.key === STORAGE_KEY_PROMPTS) {
+        setPrompts(loadFromLocalStorage(STORAGE_KEY_PROMPTS, DEFAULT_PROMPTS));
+      }
+    };
+    window.addEventListener('storage', reload);
+    return () => window.removeEventListener('storage', reload);
+  }, []);
+
+  // Write queued changes before the page goes away
+  useEffect(() => {
+    const flush = () => {
+      chatStorage.flush();
+      tabSync.publish({ type: 'window-closed' });
+    };
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, []);
+
+  // Save active tab ID whenever it changes
+  useEffect(() => {
+    if (isStorageReady) {
+      chatStorage.saveSetting('activeTabId', activeTabId);
     }
-    
-    // Ensure activeTabId points to an existing tab
-    const tabExists = tabs.some(tab => tab.id === activeTabId);
-    if (!tabExists && tabs.length > 0) {
-      setActiveTabId(tabs[0].id);
+  }, [activeTabId, isStorageReady]);
+
+  // Save selected model whenever it changes
+  useEffect(() => {
+    if (isStorageReady && selectedModel) {
+      chatStorage.saveSetting('selectedModel', selectedModel);
     }
-  }, []);
+  }, [selectedModel, isStorageReady]);
+
+  useEffect(() => {
+    if (isStorageReady) {
+      chatStorage.saveSetting('selectedProvider', selectedProvider);
+    }
+  }, [selectedProvider, isStorageReady]);
+
+  // Save personas to localStorage whenever they change
+  useEffect(() => {
+    saveToLocalStorage(STORAGE_KEY_PERSONAS, personas);
+  }, [personas]);
+
+  useEffect(() => {
+    saveToLocalStorage(STORAGE_KEY_PROMPTS, prompts);
+  }, [prompts]);
 
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
-  const loadModels = async () => {
+  // Bring a message opened from search into view and flash it briefly.
+  // Runs after the scroll to the bottom above, so it wins.
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  // Ctrl+K / Cmd+K opens search from anywhere
+  useEffect(() => {
+    const handleShortcut = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowSearch(current => !current);
+      }
+    };
+    window.addEventListener('keydown', handleShortcut);
+    return () => window.removeEventListener('keydown', handleShortcut);
+  }, []);
+
+  // Look up the capabilities of the models in use, to warn about images they
+  // can't see and to offer tools, and the selected model's default context size
+  const compareModels = activeTab?.compareModels;
+  useEffect(() => {
+    if (!provider.supportsModelManagement) return;
+
+    const missing = [selectedModel, ...(compareModels ?? [])].filter(model => model && !(model in modelDetails));
+    if (missing.length === 0) return;
+
+    // Details count as unknown (null) until they arrive, so nothing is fetched twice
+    setModelDetails(prev => ({ ...prev, ...Object.fromEntries(missing.map(model => [model, null])) }));
+    missing.forEach(model => {
+      ollamaService.getModelInfo(model)
+        .then(info => setModelDetails(prev => ({ ...prev, [model]: info })))
+        .catch(() => setModelDetails(prev => ({ ...prev, [model]: null })));
+    });
+  }, [provider, selectedModel, compareModels, modelDetails]);
+
+  const loadModels = useCallback(async () => {
+    const requestId = ++modelsRequestRef.current;
     try {
-      const modelList = await ollamaService.getModels();
-      setModels(modelList.map(m => m.name));
+      const modelList = await provider.listModels();
+      if (requestId !== modelsRequestRef.current) return;
+      const modelNames = modelList.map(m => m.name);
+      setModels(modelNames);
       
-      // Only set the first model if there's no saved model
-      if (modelList.length > 0 && !selectedModel) {
-        setSelectedModel(modelList[0].name);
+      // Only pick the first model if there's no saved model, or it was deleted
+      if (modelNames.length > 0) {
+        setSelectedModel(current => modelNames.includes(current) ? current : modelNames[0]);
       }
     } catch (error) {
       console.error('Failed to load models:', error);
+      if (requestId === modelsRequestRef.current) {
+        setModels([]);
+      }
     }
+  }, [provider]);
+
+  // Check the server whenever the connection or provider changes
+  useEffect(() => {
+    let cancelled = false;
+    setConnectionStatus('checking');
+    setConnectionError('');
+
+    provider.testConnection(activeConnection)
+      .then(() => {
+        if (!cancelled) setConnectionStatus('connected');
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setConnectionStatus('error');
+        setConnectionError(error instanceof Error ? error.message : String(error));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeConnection, provider]);
+
+  // Each provider and server has its own models
+  useEffect(() => {
+    loadModels();
+  }, [loadModels, activeConnection]);
+
+  const updateConnections = (profiles: ConnectionProfile[]) => {
+    connectionService.saveProfiles(profiles);
+    setConnections(connectionService.getProfiles());
+    setActiveConnectionId(connectionService.getActiveProfile().id);
+    // Model details may differ on the edited server
+    setModelDetails({});
+  };
+
+  const selectConnection = (profileId: string) => {
+    stopGeneration();
+    connectionService.setActiveProfile(profileId);
+    setActiveConnectionId(profileId);
+    setModelDetails({});
+  };
+
+  // Switch models from the header; the active tab remembers the choice
+  const selectModel = (providerId: ProviderId, model: string) => {
+    setSelectedProvider(providerId);
+    setSelectedModel(model);
+    updateTab(activeTab.id, tab => ({ ...tab, provider: providerId, model }));
   };
 
   const scrollToBottom = () => {
@@ -142,85 +643,514 @@ export function Chat() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || !selectedModel || isLoading) return;
 
-    const userMessage: Message = { role: 'user', content: input };
-    updateMessages([...messages, userMessage]);
+    // Built-in commands run instead of being sent
+    const slashInput = parseSlashInput(input.trim());
+    const command = slashInput && findBuiltInCommand(slashInput.name);
+    if (command) {
+      runCommand(command.name, slashInput.argument ?? '');
+      return;
+    }
+
+    if ((!input.trim() && attachments.length === 0) || !selectedModel || isLoading || storageStatus === 'loading') return;
+
+    // Reply to the end of the branch that is currently shown
+    const parentId = messages[messages.length - 1]?.id ?? null;
+    const userId = createId('msg');
+    const userMessage = attachments.length > 0
+      ? { role: 'user' as const, content: input, images: attachments }
+      : { role: 'user' as const, content: input };
+    const tab = appendMessage(activeTab, parentId, userMessage, userId);
+    updateTab(tab.id, current => appendMessage(current, parentId, userMessage, userId));
     setInput('');
-    setIsLoading(true);
+    setAttachments([]);
+    setAttachmentError('');
+
+    await answerMessage(tab, userId);
+  };
+
+  // Send an edited copy of a user message as a new branch next to the original
+  const editMessage = async (nodeId: string, content: string) => {
+    const node = activeTab.nodes[nodeId];
+    if (!node || !selectedModel || isLoading) return;
+
+    // The edited copy keeps the original's images
+    const userId = createId('msg');
+    const userMessage = { role: 'user' as const, content, images: node.images };
+    const tab = appendMessage(activeTab, node.parentId, userMessage, userId);
+    updateTab(tab.id, current => appendMessage(current, node.parentId, userMessage, userId));
+
+    await answerMessage(tab, userId);
+  };
+
+  // Ask for another version of an assistant reply, kept as a sibling branch.
+  // In a comparison the new version comes from the same model.
+  const regenerateMessage = async (nodeId: string) => {
+    const node = activeTab.nodes[nodeId];
+    if (!node?.parentId || !selectedModel || isLoading) return;
+
+    await generateReply(activeTab, node.parentId, replyModel(node.model));
+  };
 
+  // Model for another version of a reply: the same one in a comparison,
+  // otherwise the one selected in the header
+  const replyModel = (model?: string) =>
+    activeTab.compareModels && model ? model : selectedModel;
+
+  // Answer a new user message, from every model when comparing
+  const answerMessage = async (tab: Tab, parentId: string) => {
+    if (!tab.compareModels) {
+      await generateReply(tab, parentId);
+      return;
+    }
+
+    const replyIds = tab.compareModels.map(() => createId('msg'));
+    const replies = tab.compareModels.map((model, index) => generateReply(tab, parentId, model, replyIds[index]));
+    // Continue from the first model's answer until the user picks another
+    updateTab(tab.id, current => selectBranch(current, replyIds[0]));
+    await Promise.all(replies);
+  };
+
+  const selectMessageBranch = (nodeId: string) => {
+    updateTab(activeTab.id, tab => selectBranch(tab, nodeId));
+  };
+
+  // Jump to a search result, switching tab and branch as needed
+  const openSearchResult = (result: SearchResult) => {
+    setShowSearch(false);
+    switchTab(result.tabId);
+    updateTab(result.tabId, tab => selectBranch(tab, result.nodeId));
+    setHighlightedMessageId(result.nodeId);
+  };
+
+  // Stream a reply to the conversation ending at parentId into a new child node
+  const generateReply = async (
+    tab: Tab,
+    parentId: string,
+    model = selectedModel,
+    assistantId = createId('msg')
+  ) => {
+    // Pin the reply to the tab it was asked in, even if the user switches away
+    const tabId = tab.id;
+    const chatProvider = provider;
+    updateTab(tabId, current => ({
+      ...appendMessage(current, parentId, { role: 'assistant', content: '', model, format: current.format }, assistantId),
+      // A comparison tab keeps its own model list
+      ...(current.compareModels ? { provider: chatProvider.id } : { provider: chatProvider.id, model }),
+      updatedAt: Date.now()
+    }));
+
+    const controller = new AbortController();
+    abortControllersRef.current.set(assistantId, controller);
+    setStreams(prev => ({ ...prev, [assistantId]: { tabId, model } }));
+    const setNotice = (notice?: string) => setStreams(prev => prev[assistantId]
+      ? { ...prev, [assistantId]: { ...prev[assistantId], notice } }
+      : prev
+    );
+
+    const history = getPathTo(tab, parentId);
+    let assistantMessage = '';
+    let thinking = '';
+    // Reasoning time runs from its first token to the first token of the answer
+    let thinkingStartedAt = 0;
+    let thinkingDuration: number | undefined;
+    const canThink = !!modelDetails[model]?.capabilities?.includes('thinking');
     try {
-      let assistantMessage = '';
-      await ollamaService.generateCompletion(
-        selectedModel,
-        [...messages, userMessage],
-        (response) => {
-          if (response.message?.content) {
-            assistantMessage += response.message.content;
-            updateActiveTabMessages(prev => {
-              const newMessages = [...prev];
-              const lastMessage = newMessages[newMessages.length - 1];
-              if (lastMessage?.role === 'assistant') {
-                lastMessage.content = assistantMessage;
-                return [...newMessages];
-              }
-              return [...newMessages, { role: 'assistant', content: assistantMessage }];
-            });
+      // Look up the parts of the tab's documents closest to the question
+      let sources: string | undefined;
+      if (tab.knowledge?.documents.length) {
+        setNotice('Searching documents...');
+        const citations = await documentIndex.retrieve(tabId, tab.knowledge, history[history.length - 1].content, controller.signal);
+        if (citations.length > 0) {
+          sources = documentIndex.formatSources(citations);
+          updateTab(tabId, current => updateNode(current, assistantId, { citations }));
+        }
+        setNotice(undefined);
+      }
+
+      const { messages: requestMessages, summary } = await contextManager.prepareRequest(tab, history, {
+        provider: chatProvider,
+        model,
+        contextSize: tab.options?.num_ctx ?? modelContextSize,
+        sources,
+        canThink,
+        signal: controller.signal
+      });
+      if (summary) {
+        updateTab(tabId, current => ({ ...current, contextSummary: summary }));
+      }
+
+      const finishThinking = () => {
+        if (!thinkingStartedAt || thinkingDuration !== undefined) return;
+        thinkingDuration = Date.now() - thinkingStartedAt;
+        updateTab(tabId, current => updateNode(current, assistantId, { thinkingDuration }));
+      };
+
+      // A model that isn't in memory yet can take a while to load; say so
+      // until its first output arrives
+      let hasOutput = false;
+      if (chatProvider.supportsModelManagement) {
+        ollamaService.listRunning()
+          .then(running => {
+            if (!hasOutput && !running.some(loaded => loaded.name === model || loaded.model === model)) {
+              setNotice(`Loading ${model}...`);
+            }
+          })
+          .catch(() => {
+            // Servers without /api/ps just don't get the notice
+          });
+      }
+
+      const onProgress = (response: ChatResponse) => {
+        if (!hasOutput) {
+          hasOutput = true;
+          setNotice(undefined);
+        }
+        if (response.message?.thinking) {
+          thinkingStartedAt ||= Date.now();
+          thinking += response.message.thinking;
+          updateTab(tabId, current => updateNode(current, assistantId, { thinking }));
+        }
+        if (response.message?.content) {
+          finishThinking();
+          assistantMessage += response.message.content;
+          updateTab(tabId, current => updateNode(current, assistantId, { content: assistantMessage }));
+          tabSync.publishGeneration(tabId, assistantId, assistantMessage);
+        }
+        if (response.done) {
+          finishThinking();
+          const stats = pickGenerationStats(response);
+          if (Object.keys(stats).length > 0) {
+            updateTab(tabId, current => updateNode(current, assistantId, { stats }));
+          }
+        }
+      };
+      const requestOptions = {
+        signal: controller.signal,
+        options: tab.options,
+        format: tab.format,
+        // Ollama rejects the setting for models that can't reason
+        think: canThink ? tab.think : undefined,
+        keepAlive: tab.keepAlive
+      };
+
+      // Tools are only offered to models that report supporting them
+      let toolSteps: ToolStep[] = [];
+      const useTools = chatProvider.supportsTools && !!modelDetails[model]?.capabilities?.includes('tools');
+      const toolContext: ToolContext = {
+        // Read the latest tabs, which include the message just sent and earlier tool rounds
+        searchChats: (query, limit) => {
+          searchIndex.update(tabsRef.current);
+          return searchIndex.search(query, limit);
+        }
+      };
+
+      // A dropped connection restarts the reply from scratch after a short wait
+      await withRetry(
+        () => {
+          setNotice(undefined);
+          return useTools
+            ? toolLoop.chat(chatProvider, model, requestMessages, {
+              context: toolContext,
+              onProgress,
+              onStep: (step) => {
+                toolSteps = [...toolSteps, step];
+                updateTab(tabId, current => updateNode(current, assistantId, { toolSteps }));
+              },
+              requestOptions
+            })
+            : chatProvider.chat(model, requestMessages, onProgress, requestOptions);
+        },
+        {
+          retries: CONNECTION_RETRIES,
+          baseDelayMs: CONNECTION_RETRY_DELAY_MS,
+          signal: controller.signal,
+          shouldRetry: isConnectionError,
+          onRetry: (retry, delayMs) => {
+            console.warn(`Connection lost, retry ${retry} of ${CONNECTION_RETRIES} in ${delayMs}ms`);
+            setNotice(`Connection lost, retrying in ${delayMs / 1000}s (${retry}/${CONNECTION_RETRIES})...`);
+            assistantMessage = '';
+            thinking = '';
+            thinkingStartedAt = 0;
+            thinkingDuration = undefined;
+            toolSteps = [];
+            updateTab(tabId, current => updateNode(current, assistantId, {
+              content: '',
+              thinking: undefined,
+              thinkingDuration: undefined,
+              toolSteps: undefined
+            }));
+            tabSync.publishGeneration(tabId, assistantId, '');
           }
         }
       );
+
+      // Name the chat once its first exchange is complete (once per comparison)
+      if (history.length === 1 && !tab.nameSource && model === (tab.compareModels?.[0] ?? model)) {
+        generateTitle(tabId, chatProvider, model, history[0].content, assistantMessage, canThink);
+      }
     } catch (error) {
-      console.error('Failed to generate response:', error);
+      if (isAbortError(error)) {
+        updateTab(tabId, current => assistantMessage || thinking
+          // Keep whatever was streamed so far and flag it as incomplete
+          ? updateNode(current, assistantId, { stopped: true })
+          : removeLeaf(current, assistantId)
+        );
+      } else {
+        // Keep the reply in place with the error, so it can be retried
+        console.error('Failed to generate response:', error);
+        updateTab(tabId, current => updateNode(current, assistantId, { error: describeError(error) }));
+      }
     } finally {
-      setIsLoading(false);
+      tabSync.endGeneration(tabId, assistantId);
+      abortControllersRef.current.delete(assistantId);
+      setStreams(prev => {
+        const next = { ...prev };
+        delete next[assistantId];
+        return next;
+      });
       // Focus input after response is complete
       setTimeout(() => chatInputRef.current?.focus(), 100);
     }
   };
 
-  const updateMessages = (newMessages: Message[]) => {
-    const updatedTabs = tabs.map(tab => 
-      tab.id === activeTabId 
-        ? { ...tab, messages: newMessages }
-        : tab
-    );
-    setTabs(updatedTabs);
-    
-    // Force save to localStorage for immediate persistence
-    saveToLocalStorage(STORAGE_KEY_TABS, updatedTabs);
+  // Replace a failed reply with a new attempt at answering the same message
+  const retryMessage = async (nodeId: string) => {
+    const node = activeTab.nodes[nodeId];
+    if (!node?.parentId || !selectedModel || isLoading) return;
+
+    const tab = removeLeaf(activeTab, nodeId);
+    updateTab(tab.id, current => removeLeaf(current, nodeId));
+    await generateReply(tab, node.parentId, replyModel(node.model));
   };
 
-  const updateActiveTabMessages = (updater: (messages: Message[]) => Message[]) => {
-    const updatedTabs = tabs.map(tab => 
-      tab.id === activeTabId 
-        ? { ...tab, messages: updater(tab.messages || []) }
-        : tab
-    );
-    setTabs(updatedTabs);
-    
-    // Force save to localStorage for immediate persistence
-    saveToLocalStorage(STORAGE_KEY_TABS, updatedTabs);
+  // Ask the model for a short tab title in a separate, non-streaming request
+  // that doesn't touch the conversation. Failures just keep the placeholder.
+  const generateTitle = async (
+    tabId: string,
+    chatProvider: ChatProvider,
+    model: string,
+    question: string,
+    answer: string,
+    canThink: boolean
+  ) => {
+    try {
+      const reply = await chatProvider.chat(
+        model,
+        [
+          { role: 'system', content: TITLE_PROMPT },
+          { role: 'user', content: `User: ${question}\n\nAssistant: ${answer.slice(0, 2000)}` }
+        ],
+        undefined,
+        // Reasoning would use up the few tokens a title gets
+        { options: { temperature: 0.2, num_predict: 32 }, think: canThink ? false : undefined }
+      );
+      const title = cleanTitle(reply);
+      if (!title) return;
+
+      // The user may have renamed the tab while the title was generating
+      updateTab(tabId, current => current.nameSource ? current : { ...current, name: title, nameSource: 'auto' });
+    } catch (error) {
+      console.error('Failed to generate a chat title:', error);
+    }
+  };
+
+  // Attach image files from the picker, a paste or a drop
+  const addAttachments = async (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (images.length === 0) return;
+
+    const room = MAX_IMAGES_PER_MESSAGE - attachments.length;
+    if (images.length > room) {
+      setAttachmentError(`You can attach up to ${MAX_IMAGES_PER_MESSAGE} images per message.`);
+    } else {
+      setAttachmentError('');
+    }
+
+    const results = await Promise.allSettled(images.slice(0, Math.max(0, room)).map(readImageFile));
+    const loaded = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      setAttachmentError(failure.reason instanceof Error ? failure.reason.message : String(failure.reason));
+    }
+
+    setAttachments(prev => [...prev, ...loaded].slice(0, MAX_IMAGES_PER_MESSAGE));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.some(file => file.type.startsWith('image/'))) {
+      e.preventDefault();
+      addAttachments(files);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
   };
 
-  const addNewTab = () => {
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    addAttachments(Array.from(e.dataTransfer.files));
+  };
+
+  // Cancel generating replies: one, those of a tab, or all of them.
+  // Each reply's own cleanup removes it from the stream state.
+  const stopGeneration = (filter: { nodeId?: string; tabId?: string } = {}) => {
+    abortControllersRef.current.forEach((controller, nodeId) => {
+      if (filter.nodeId && nodeId !== filter.nodeId) return;
+      if (filter.tabId && streams[nodeId]?.tabId !== filter.tabId) return;
+      controller.abort();
+    });
+  };
+
+  const updateTab = (tabId: string, updater: (tab: Tab) => Tab) => {
+    setTabs(prevTabs => prevTabs.map(tab =>
+      tab.id === tabId ? updater(tab) : tab
+    ));
+  };
+
+  const updateSystemPrompt = (tabId: string, systemPrompt: string) => {
+    updateTab(tabId, tab => ({ ...tab, systemPrompt }));
+  };
+
+  const updateTabSettings = (tabId: string, settings: TabSettings) => {
+    updateTab(tabId, tab => ({ ...tab, ...settings }));
+  };
+
+  // The document's chunks are already stored; the tab only lists it
+  const addDocument = (tabId: string, embeddingModel: string, document: TabDocument) => {
+    updateTab(tabId, tab => ({
+      ...tab,
+      knowledge: {
+        embeddingModel,
+        documents: [...(tab.knowledge?.documents ?? []), document]
+      }
+    }));
+  };
+
+  const removeDocument = (tabId: string, documentId: string) => {
+    updateTab(tabId, tab => {
+      if (!tab.knowledge) return tab;
+      const documents = tab.knowledge.documents.filter(document => document.id !== documentId);
+      return {
+        ...tab,
+        knowledge: documents.length > 0 ? { ...tab.knowledge, documents } : undefined
+      };
+    });
+    documentIndex.removeDocument(tabId, documentId);
+  };
+
+  const dismissSyncConflict = (tabId: string) => {
+    setSyncConflicts(prev => {
+      const next = { ...prev };
+      delete next[tabId];
+      return next;
+    });
+  };
+
+  const toggleMessagePin = (nodeId: string) => {
+    updateTab(activeTab.id, tab => updateNode(tab, nodeId, { pinned: !tab.nodes[nodeId]?.pinned || undefined }));
+  };
+
+  const saveSystemPromptAsPersona = () => {
+    const systemPrompt = activeTab?.systemPrompt?.trim();
+    if (!systemPrompt) return;
+
+    const name = prompt('Name for this persona:');
+    if (!name?.trim()) return;
+
+    setPersonas(prev => [...prev, { id: `persona-${Date.now()}`, name: name.trim(), systemPrompt }]);
+  };
+
+  // Pass the tab itself when it was only just added and isn't in tabs yet
+  const switchTab = (tabId: string, tab = tabs.find(candidate => candidate.id === tabId)) => {
+    if (tabId === activeTabId) return;
+    // Don't let a reply keep streaming into a tab the user has left
+    stopGeneration();
+    setActiveTabId(tabId);
+
+    // Pick up the provider and model the tab was using
+    if (tab?.model) {
+      setSelectedProvider(tab.provider ?? DEFAULT_PROVIDER_ID);
+      setSelectedModel(tab.model);
+    }
+  };
+
+  const addNewTab = (systemPrompt = '', compareModels?: string[]) => {
+    stopGeneration();
     const newTabId = `tab-${Date.now()}`; // Use timestamp for unique IDs
-    const newTab = {
+    const newTab: Tab = {
       id: newTabId,
-      name: `Chat ${tabs.length + 1}`,
-      messages: []
+      name: nextDefaultTabName(tabs),
+      nodes: {},
+      rootIds: [],
+      systemPrompt,
+      ...(compareModels && { compareModels, provider: selectedProvider, model: selectedModel }),
+      createdAt: Date.now()
     };
-    const updatedTabs = [...tabs, newTab];
-    setTabs(updatedTabs);
+    setTabs([...tabs, newTab]);
     setActiveTabId(newTabId);
-    
-    // Force save to localStorage for immediate persistence
-    saveToLocalStorage(STORAGE_KEY_TABS, updatedTabs);
-    saveToLocalStorage(STORAGE_KEY_ACTIVE_TAB, newTabId);
+  };
+
+  const updateCompareModels = (tabId: string, compareModels: string[]) => {
+    updateTab(tabId, tab => ({ ...tab, compareModels }));
+  };
+
+  const renameTab = (tabId: string, name: string) => {
+    updateTab(tabId, tab => tab.name === name ? tab : { ...tab, name, nameSource: 'user' });
+  };
+
+  // Pinned tabs are kept in front of the others; toggling moves the tab to
+  // the boundary between the two groups
+  const togglePinTab = (tabId: string) => {
+    setTabs(prevTabs => {
+      const tab = prevTabs.find(candidate => candidate.id === tabId);
+      if (!tab) return prevTabs;
+
+      // The end of the pinned group and the start of the unpinned one are the same spot
+      const others = prevTabs.filter(candidate => candidate.id !== tabId);
+      return [
+        ...others.filter(candidate => candidate.pinned),
+        { ...tab, pinned: !tab.pinned || undefined },
+        ...others.filter(candidate => !candidate.pinned)
+      ];
+    });
+  };
+
+  // Move a dragged tab to the position of another; tabs can't be dragged
+  // across the boundary between pinned and unpinned tabs
+  const moveTab = (tabId: string, targetTabId: string) => {
+    setTabs(prevTabs => {
+      const fromIndex = prevTabs.findIndex(tab => tab.id === tabId);
+      const toIndex = prevTabs.findIndex(tab => tab.id === targetTabId);
+      if (fromIndex === -1 || toIndex === -1 || !prevTabs[fromIndex].pinned !== !prevTabs[toIndex].pinned) {
+        return prevTabs;
+      }
+
+      const nextTabs = [...prevTabs];
+      const [moved] = nextTabs.splice(fromIndex, 1);
+      nextTabs.splice(toIndex, 0, moved);
+      return nextTabs;
+    });
+  };
+
+  // Append imported tabs after the existing ones and open the first of them
+  const importTabs = (importedTabs: Tab[]) => {
+    if (importedTabs.length === 0) return;
+    setTabs(prevTabs => [...prevTabs, ...importedTabs]);
+    switchTab(importedTabs[0].id, importedTabs[0]);
   };
 
   const deleteTab = (tabId: string) => {
     if (tabs.length <= 1) return; // Don't delete the last tab
     
+    stopGeneration({ tabId });
+    
     const tabIndex = tabs.findIndex(tab => tab.id === tabId);
     const newTabs = tabs.filter(tab => tab.id !== tabId);
     
@@ -230,37 +1160,128 @@ export function Chat() {
     if (activeTabId === tabId) {
       // Try to activate the tab to the left, or the first tab if there is none
       const newActiveIndex = Math.max(0, tabIndex - 1);
-      const newActiveTabId = newTabs[newActiveIndex].id;
-      setActiveTabId(newActiveTabId);
-      
-      // Force save to localStorage for immediate persistence
-      saveToLocalStorage(STORAGE_KEY_ACTIVE_TAB, newActiveTabId);
+      setActiveTabId(newTabs[newActiveIndex].id);
     }
-    
-    // Force save to localStorage for immediate persistence
-    saveToLocalStorage(STORAGE_KEY_TABS, newTabs);
   };
 
   const clearAllTabs = () => {
     if (confirm('Are you sure you want to clear all chat history? This cannot be undone.')) {
+      stopGeneration();
+      // Removed tabs are deleted from storage by the save effect
       const defaultTab = getDefaultTab();
-      const emptyTabs = [defaultTab];
-      setTabs(emptyTabs);
+      setTabs([defaultTab]);
       setActiveTabId(defaultTab.id);
       
-      // Force save to localStorage for immediate persistence
-      saveToLocalStorage(STORAGE_KEY_TABS, emptyTabs);
-      saveToLocalStorage(STORAGE_KEY_ACTIVE_TAB, defaultTab.id);
-      
-      // Also clear localStorage directly to ensure it's emptied
-      localStorage.removeItem(STORAGE_KEY_TABS);
-      localStorage.removeItem(STORAGE_KEY_ACTIVE_TAB);
-      
-      console.log('All chat history cleared and localStorage reset');
+      console.log('All chat history cleared');
+    }
+  };
+
+  const changeInput = (value: string) => {
+    setInput(value);
+    setSlashIndex(0);
+    setCommandError('');
+  };
+
+  // Run a built-in slash command. The input is kept, with an error, when it can't run.
+  const runCommand = (name: BuiltInCommandName, argument: string) => {
+    const fail = (message: string) => setCommandError(message);
+
+    switch (name) {
+      case 'model': {
+        const model = models.find(candidate => candidate === argument) ??
+          models.find(candidate => candidate.toLowerCase().startsWith(argument.toLowerCase()));
+        if (!argument || !model) {
+          return fail(argument ? `No model called "${argument}"` : 'Type a model name after /model');
+        }
+        selectModel(selectedProvider, model);
+        break;
+      }
+      case 'new':
+        addNewTab();
+        break;
+      case 'clear':
+        stopGeneration({ tabId: activeTab.id });
+        updateTab(activeTab.id, tab => ({
+          ...tab,
+          nodes: {},
+          rootIds: [],
+          activeRootId: undefined,
+          contextSummary: undefined,
+          updatedAt: Date.now()
+        }));
+        break;
+      case 'system':
+        updateSystemPrompt(activeTab.id, argument);
+        break;
+      case 'export': {
+        const today = new Date().toISOString().slice(0, 10);
+        const fileName = `${toFileName(activeTab.name)}-${today}`;
+        if (argument === '' || argument === 'markdown') {
+          downloadFile(`${fileName}.md`, exportTabToMarkdown(activeTab), 'text/markdown');
+        } else if (argument === 'json') {
+          const tab = activeTab;
+          documentIndex.exportChunks([tab])
+            .then(documentChunks => downloadFile(`${fileName}.json`, exportTabsToJson([tab], documentChunks), 'application/json'))
+            .catch(error => console.error('Failed to export chat:', error));
+        } else {
+          return fail('Export as markdown or json');
+        }
+        break;
+      }
+    }
+    changeInput('');
+  };
+
+  // Put a saved prompt in the input, asking for its variables first
+  const insertPrompt = (text: string) => {
+    changeInput(text);
+    setPromptToFill(null);
+    setTimeout(() => chatInputRef.current?.focus(), 0);
+  };
+
+  const chooseSuggestion = (suggestion: SlashSuggestion) => {
+    switch (suggestion.kind) {
+      case 'prompt':
+        if (extractVariables(suggestion.prompt.content).length > 0) {
+          setPromptToFill(suggestion.prompt);
+        } else {
+          insertPrompt(suggestion.prompt.content);
+        }
+        break;
+      case 'command':
+        // Commands with an argument wait for it, which may offer its own suggestions
+        if (suggestion.command.takesArgument) {
+          changeInput(`/${suggestion.command.name} `);
+        } else {
+          runCommand(suggestion.command.name, '');
+        }
+        break;
+      case 'argument':
+        runCommand(suggestion.command, suggestion.value);
+        break;
     }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (slashSuggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSlashIndex((slashIndex + step + slashSuggestions.length) % slashSuggestions.length);
+        return;
+      }
+      if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+        e.preventDefault();
+        chooseSuggestion(slashSuggestions[Math.min(slashIndex, slashSuggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setDismissedSlashInput(input);
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e);
@@ -277,10 +1298,25 @@ export function Chat() {
         <div className="header-content">
           <h1 className="app-title">Vibed Web UI</h1>
           <div className="header-controls">
+            <select
+              value={selectedProvider}
+              onChange={(e) => {
+                if (isProviderId(e.target.value)) {
+                  selectModel(e.target.value, '');
+                }
+              }}
+              className="model-select"
+              aria-label="Provider"
+            >
+              {PROVIDERS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
             <select
               value={selectedModel}
-              onChange={(e) => setSelectedModel(e.target.value)}
+              onChange={(e) => selectModel(selectedProvider, e.target.value)}
               className="model-select"
+              aria-label="Model"
             >
               {models.length > 0 ? (
                 models.map(model => (
@@ -290,6 +1326,52 @@ export function Chat() {
                 <option value="">Loading models...</option>
               )}
             </select>
+            {contextUsed > 0 && <ContextMeter used={contextUsed} size={contextSize} />}
+            <button
+              onClick={() => setShowSearch(true)}
+              className="settings-button"
+              aria-label="Search chats"
+              title="Search all chats (Ctrl+K)"
+            >
+              🔍
+            </button>
+            <button
+              onClick={() => setShowConnectionManager(true)}
+              className="settings-button connection-button"
+              aria-label="Connections"
+              title={connectionStatus === 'error'
+                ? `${activeConnection.name}: ${connectionError}`
+                : `${activeConnection.name} (${activeConnection.baseUrl})`}
+            >
+              <span className={`connection-dot ${connectionStatus}`} />
+              {activeConnection.name}
+            </button>
+            <button
+              onClick={() => setShowModelManager(true)}
+              disabled={!provider.supportsModelManagement}
+              className="settings-button"
+              aria-label="Manage models"
+              title="Manage models"
+            >
+              📦
+            </button>
+            <button
+              onClick={() => setShowRunningModels(true)}
+              disabled={!provider.supportsModelManagement}
+              className="settings-button"
+              aria-label="Running models"
+              title="Models loaded in memory"
+            >
+              🖥️
+            </button>
+            <button
+              onClick={() => setShowSettings(true)}
+              className="settings-button"
+              aria-label="Generation settings"
+              title="Generation settings for this chat"
+            >
+              ⚙️
+            </button>
             <span className="date-display">{getFormattedDate()}</span>
           </div>
         </div>
@@ -297,33 +1379,47 @@ export function Chat() {
 
       {/* Tabs */}
       <div className="tabs-container">
-        <div className="tabs-list">
-          {tabs.map(tab => (
-            <div key={tab.id} className="tab">
-              <button
-                onClick={() => setActiveTabId(tab.id)}
-                className={`tab-button ${activeTabId === tab.id ? 'active' : ''}`}
-              >
-                {tab.name}
-              </button>
-              {tabs.length > 1 && (
-                <button 
-                  onClick={() => deleteTab(tab.id)}
-                  className="tab-close"
-                  aria-label="Close tab"
-                >
-                  ×
-                </button>
-              )}
-            </div>
-          ))}
+        <TabBar
+          tabs={tabs}
+          activeTabId={activeTab.id}
+          onSelect={switchTab}
+          onClose={deleteTab}
+          onRename={renameTab}
+          onTogglePin={togglePinTab}
+          onMove={moveTab}
+        />
+        <div className="tab-controls">
           <button
-            onClick={addNewTab}
+            onClick={() => addNewTab()}
             className="new-tab-button"
             aria-label="New chat"
           >
             +
           </button>
+          <button
+            onClick={() => addNewTab('', defaultCompareModels(models, selectedModel))}
+            disabled={models.length < MIN_COMPARE_MODELS}
+            className="new-tab-button"
+            aria-label="New comparison"
+            title="Send each prompt to several models and compare the answers"
+          >
+            ⚖️
+          </button>
+          <select
+            value=""
+            onChange={(e) => {
+              const persona = personas.find(p => p.id === e.target.value);
+              if (persona) addNewTab(persona.systemPrompt);
+            }}
+            className="persona-select new-tab-persona"
+            aria-label="New chat with persona"
+            title="Start a new chat with a persona"
+          >
+            <option value="">New with persona...</option>
+            {personas.map(persona => (
+              <option key={persona.id} value={persona.id}>{persona.name}</option>
+            ))}
+          </select>
           <button
             onClick={clearAllTabs}
             className="clear-tabs-button"
@@ -332,29 +1428,123 @@ export function Chat() {
           >
             🗑️
           </button>
+          <ImportExportMenu
+            tabs={tabs}
+            activeTab={activeTab}
+            onImport={importTabs}
+          />
         </div>
       </div>
 
+      {storageWarning && (
+        <div className="storage-warning" role="alert">
+          <span>{storageWarning}</span>
+          <button
+            onClick={() => setStorageWarning('')}
+            className="storage-warning-dismiss"
+            aria-label="Dismiss warning"
+          >
+            ×
+          </button>
+        </div>
+      )}
+
+      {syncConflict && (
+        <SyncConflictNotice
+          conflicts={syncConflict.conflicts}
+          remoteWins={syncConflict.remoteWins}
+          onRestore={() => {
+            updateTab(activeTab.id, tab => restoreConflicts(tab, syncConflict.mine, syncConflict.conflicts));
+            dismissSyncConflict(activeTab.id);
+          }}
+          onDismiss={() => dismissSyncConflict(activeTab.id)}
+        />
+      )}
+
       {/* Main chat area */}
       <main className="main-content">
-        <div className="chat-box">
+        <div
+          className={`chat-box ${isDraggingFiles ? 'dragging-files' : ''}`}
+          onDragOver={handleDragOver}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+              setIsDraggingFiles(false);
+            }
+          }}
+          onDrop={handleDrop}
+        >
+          <SystemPromptPanel
+            systemPrompt={activeTab?.systemPrompt || ''}
+            personas={personas}
+            onChange={(systemPrompt) => updateSystemPrompt(activeTab.id, systemPrompt)}
+            onSaveAsPersona={saveSystemPromptAsPersona}
+            onManagePersonas={() => setShowPersonaManager(true)}
+          />
+          <DocumentPanel
+            key={activeTab.id}
+            knowledge={activeTab.knowledge}
+            tabId={activeTab.id}
+            onAdd={(embeddingModel, document) => addDocument(activeTab.id, embeddingModel, document)}
+            onRemove={(documentId) => removeDocument(activeTab.id, documentId)}
+          />
+          {activeTab.compareModels && (
+            <ComparisonBar
+              models={models}
+              selected={activeTab.compareModels}
+              disabled={isLoading}
+              onChange={(compareModels) => updateCompareModels(activeTab.id, compareModels)}
+            />
+          )}
+
           {/* Chat log */}
           <div className="chat-messages">
-            {messages.length === 0 ? (
+            {storageStatus === 'loading' ? (
+              <div className="empty-chat">
+                <p className="empty-chat-text">Loading chats...</p>
+              </div>
+            ) : messages.length === 0 ? (
               <div className="empty-chat">
                 <p className="empty-chat-text">Start a new conversation</p>
               </div>
             ) : (
-              messages.map((message, index) => (
-                <div
-                  key={index}
-                  className={`message ${message.role === 'user' ? 'user-message' : 'ai-message'}`}
-                >
-                  <p className="message-role">
-                    {message.role === 'user' ? 'User:' : 'AI:'}
-                  </p>
-                  <p className="message-content">{message.content}</p>
-                </div>
+              messages.map(message => (
+                <Fragment key={message.id}>
+                  {isComparison && message.role === 'assistant' ? (
+                    <ComparisonRow
+                      replies={getSiblingIds(activeTab, message).map(nodeId => activeTab.nodes[nodeId])}
+                      chosenId={message.id}
+                      streamingIds={streamingIds}
+                      isBusy={isLoading}
+                      onChoose={selectMessageBranch}
+                      onStop={(nodeId) => stopGeneration({ nodeId })}
+                      onRegenerate={regenerateMessage}
+                      onRetry={retryMessage}
+                    />
+                  ) : (
+                    <MessageItem
+                      message={message}
+                      siblingIds={getSiblingIds(activeTab, message)}
+                      isPending={(streamingIds.has(message.id) || mirroredIds.has(message.id)) && !message.content}
+                      isStreaming={streamingIds.has(message.id) || mirroredIds.has(message.id)}
+                      isHighlighted={message.id === highlightedMessageId}
+                      isBusy={isLoading}
+                      contextState={excludedIds.has(message.id)
+                        ? 'excluded'
+                        : summarizedIds.has(message.id) ? 'summarized' : undefined}
+                      onSelectBranch={selectMessageBranch}
+                      onEdit={editMessage}
+                      onRegenerate={regenerateMessage}
+                      onRetry={retryMessage}
+                      onTogglePin={activeTab.contextStrategy === 'keep-pinned' ? toggleMessagePin : undefined}
+                    />
+                  )}
+                  {message.id === activeTab.contextSummary?.upToId && summarizedIds.has(message.id) && (
+                    <details className="context-summary">
+                      <summary>Messages above are sent as a summary</summary>
+                      <p>{activeTab.contextSummary.content}</p>
+                    </details>
+                  )}
+                </Fragment>
               ))
             )}
             <div ref={messagesEndRef} />
@@ -363,44 +1553,193 @@ export function Chat() {
           {/* Input area */}
           <div className="input-container">
             <form onSubmit={handleSubmit} className="input-form">
+              <AttachmentTray
+                images={attachments}
+                onRemove={(index) => setAttachments(prev => prev.filter((_, i) => i !== index))}
+              />
+              {attachmentError && <p className="settings-error">{attachmentError}</p>}
+              {lacksVision && (
+                <p className="input-warning">
+                  {selectedModel} doesn't report vision support, so it may ignore attached images.
+                </p>
+              )}
+              {commandError && <p className="settings-error">{commandError}</p>}
               <div className="textarea-wrapper">
+                <SlashMenu
+                  suggestions={slashSuggestions}
+                  selectedIndex={Math.min(slashIndex, slashSuggestions.length - 1)}
+                  onChoose={chooseSuggestion}
+                  onHover={setSlashIndex}
+                />
                 <textarea
                   ref={chatInputRef}
                   value={input}
-                  onChange={(e) => setInput(e.target.value)}
+                  onChange={(e) => changeInput(e.target.value)}
                   onKeyDown={handleKeyDown}
+                  onPaste={handlePaste}
                   placeholder="Type your message..."
                   className="input-textarea"
                   rows={3}
-                  disabled={isLoading}
+                  disabled={isLoading || storageStatus === 'loading'}
                 ></textarea>
                 <div className="textarea-hint">
-                  Press Enter to send, Shift+Enter for new line
+                  Press Enter to send, Shift+Enter for new line, / for commands and prompts
                 </div>
               </div>
               <div className="input-controls">
-                <span className="status-text">
-                  {isLoading ? 'AI is thinking...' : 'Ready'}
-                </span>
-                <button
-                  type="submit"
-                  disabled={isLoading || !input.trim() || !selectedModel}
-                  className="send-button"
-                >
-                  {isLoading ? 'Generating...' : 'Send'}
-                </button>
+                <div className="input-controls-left">
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isLoading || attachments.length >= MAX_IMAGES_PER_MESSAGE}
+                    className="attach-button"
+                    aria-label="Attach images"
+                    title="Attach images (or paste / drop them)"
+                  >
+                    📎
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowPromptManager(true)}
+                    className="attach-button"
+                    aria-label="Prompt library"
+                    title="Prompt library (type / to use a prompt)"
+                  >
+                    📝
+                  </button>
+                  {selectedDetails?.capabilities?.includes('thinking') && (
+                    <button
+                      type="button"
+                      onClick={() => updateTab(activeTab.id, tab => ({ ...tab, think: tab.think === false }))}
+                      className={`attach-button think-toggle ${activeTab.think === false ? '' : 'active'}`}
+                      aria-pressed={activeTab.think !== false}
+                      aria-label="Thinking"
+                      title={activeTab.think === false ? 'Thinking is off' : 'Thinking is on'}
+                    >
+                      💭
+                    </button>
+                  )}
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={ACCEPTED_IMAGE_TYPES.join(',')}
+                    multiple
+                    onChange={(e) => {
+                      addAttachments(Array.from(e.target.files ?? []));
+                      e.target.value = '';
+                    }}
+                    hidden
+                  />
+                  <span className="status-text">
+                    {streamNotice || (isLoading
+                      ? activeStreamIds.length > 1 ? `${activeStreamIds.length} models are thinking...` : 'AI is thinking...'
+                      : mirroredIds.size > 0 ? 'Generating in another window...' : 'Ready')}
+                  </span>
+                </div>
+                {isLoading ? (
+                  <button
+                    type="button"
+                    onClick={() => stopGeneration({ tabId: activeTab.id })}
+                    className="stop-button"
+                  >
+                    Stop
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={(!input.trim() && attachments.length === 0) || !selectedModel}
+                    className="send-button"
+                  >
+                    Send
+                  </button>
+                )}
               </div>
             </form>
           </div>
         </div>
       </main>
 
+      {showPersonaManager && (
+        <PersonaManager
+          personas={personas}
+          onChange={setPersonas}
+          onClose={() => setShowPersonaManager(false)}
+        />
+      )}
+
+      {showPromptManager && (
+        <PromptManager
+          prompts={prompts}
+          onChange={setPrompts}
+          onClose={() => setShowPromptManager(false)}
+        />
+      )}
+
+      {promptToFill && (
+        <PromptVariablesForm
+          prompt={promptToFill}
+          onInsert={insertPrompt}
+          onClose={() => setPromptToFill(null)}
+        />
+      )}
+
+      {showSettings && (
+        <GenerationSettings
+          options={activeTab?.options ?? DEFAULT_MODEL_OPTIONS}
+          contextStrategy={activeTab?.contextStrategy ?? DEFAULT_CONTEXT_STRATEGY}
+          format={activeTab?.format}
+          think={activeTab?.think}
+          excludeThinking={activeTab?.excludeThinking}
+          keepAlive={activeTab?.keepAlive}
+          // Model defaults come from /api/show, which only Ollama has
+          model={provider.supportsModelManagement ? selectedModel : ''}
+          onSave={(settings) => updateTabSettings(activeTab.id, settings)}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showSearch && (
+        <SearchPanel
+          index={searchIndex}
+          tabs={tabs}
+          onSelect={openSearchResult}
+          onClose={() => setShowSearch(false)}
+        />
+      )}
+
+      {showConnectionManager && (
+        <ConnectionManager
+          provider={provider}
+          profiles={connections}
+          activeProfileId={activeConnection.id}
+          onChange={updateConnections}
+          onSelect={selectConnection}
+          onClose={() => setShowConnectionManager(false)}
+        />
+      )}
+
+      {showModelManager && (
+        <ModelManager
+          onModelsChanged={loadModels}
+          onClose={() => setShowModelManager(false)}
+        />
+      )}
+
+      {showRunningModels && (
+        <RunningModels
+          models={models}
+          selectedModel={selectedModel}
+          keepAlive={activeTab?.keepAlive}
+          onClose={() => setShowRunningModels(false)}
+        />
+      )}
+
       {/* Footer */}
       <footer className="footer">
         {IS_PRODUCTION ? (
           <p>Vibed Web UI</p>
         ) : (
-          <p>Vibed Web UI - Connected to {OLLAMA_API_URL}</p>
+          <p>Vibed Web UI - Connected to {activeConnection.baseUrl}</p>
         )}
       </footer>
     </div>
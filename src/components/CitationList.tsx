@@ -0,0 +1,34 @@
+import { useState } from 'react';
+import type { Citation } from '../services/documentIndex';
+
+interface CitationListProps {
+  citations: Citation[];
+}
+
+// Numbered document excerpts a reply was given, matching its [n] references.
+// Clicking a source shows the excerpt.
+export function CitationList({ citations }: CitationListProps) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const open = openIndex !== null ? citations[openIndex] : undefined;
+
+  return (
+    <div className="citations">
+      <div className="citation-chips">
+        <span className="citation-label">Sources</span>
+        {citations.map((citation, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => setOpenIndex(openIndex === index ? null : index)}
+            className={`citation-chip ${openIndex === index ? 'active' : ''}`}
+            aria-expanded={openIndex === index}
+            title={`Similarity ${citation.score.toFixed(2)}`}
+          >
+            [{index + 1}] {citation.documentName}:{citation.startLine}-{citation.endLine}
+          </button>
+        ))}
+      </div>
+      {open && <pre className="citation-excerpt">{open.text}</pre>}
+    </div>
+  );
+}
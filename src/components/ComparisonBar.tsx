@@ -0,0 +1,61 @@
+import { MAX_COMPARE_MODELS, MIN_COMPARE_MODELS } from '../utils/comparison';
+
+interface ComparisonBarProps {
+  models: string[]; // Models offered by the current provider
+  selected: string[];
+  disabled: boolean; // Replies are generating
+  onChange: (models: string[]) => void;
+}
+
+// Picks the models a comparison tab sends each prompt to
+export function ComparisonBar({ models, selected, disabled, onChange }: ComparisonBarProps) {
+  // Models saved with the tab stay listed even if the server no longer has them
+  const options = [...new Set([...models, ...selected])];
+  const unused = options.filter(model => !selected.includes(model));
+
+  const replaceModel = (index: number, model: string) => {
+    onChange(selected.map((current, currentIndex) => currentIndex === index ? model : current));
+  };
+
+  return (
+    <div className="comparison-bar">
+      <span className="system-prompt-label">Comparing</span>
+      {selected.map((model, index) => (
+        <span key={index} className="comparison-model">
+          <select
+            value={model}
+            onChange={(e) => replaceModel(index, e.target.value)}
+            disabled={disabled}
+            className="model-select"
+            aria-label={`Model ${index + 1}`}
+          >
+            {options
+              .filter(option => option === model || !selected.includes(option))
+              .map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+          </select>
+          {selected.length > MIN_COMPARE_MODELS && (
+            <button
+              onClick={() => onChange(selected.filter((_model, modelIndex) => modelIndex !== index))}
+              disabled={disabled}
+              className="tab-close"
+              aria-label={`Stop comparing ${model}`}
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+      {selected.length < MAX_COMPARE_MODELS && unused.length > 0 && (
+        <button
+          onClick={() => onChange([...selected, unused[0]])}
+          disabled={disabled}
+          className="panel-button"
+        >
+          + Add model
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import type { MessageNode } from '../types/chat';
+import { MessageItem } from './MessageItem';
+
+interface ComparisonRowProps {
+  replies: MessageNode[]; // Answers to the same prompt, one column each
+  chosenId: string; // Answer the conversation continues from
+  streamingIds: Set<string>;
+  isBusy: boolean;
+  onChoose: (nodeId: string) => void;
+  onStop: (nodeId: string) => void;
+  onRegenerate: (nodeId: string) => void;
+  onRetry: (nodeId: string) => void;
+}
+
+// Answers from the models of a comparison tab, side by side
+export function ComparisonRow({
+  replies,
+  chosenId,
+  streamingIds,
+  isBusy,
+  onChoose,
+  onStop,
+  onRegenerate,
+  onRetry
+}: ComparisonRowProps) {
+  return (
+    <div className="comparison-row">
+      {replies.map(reply => {
+        const isStreaming = streamingIds.has(reply.id);
+        const isChosen = reply.id === chosenId;
+
+        return (
+          <div key={reply.id} className={`comparison-column ${isChosen ? 'chosen' : ''}`}>
+            <div className="comparison-column-header">
+              <span className="comparison-column-model">{reply.model ?? 'Unknown model'}</span>
+              {isStreaming ? (
+                <button onClick={() => onStop(reply.id)} className="message-action">
+                  Stop
+                </button>
+              ) : isChosen ? (
+                <span className="comparison-chosen">✓ Continuing with this</span>
+              ) : (
+                <button
+                  onClick={() => onChoose(reply.id)}
+                  disabled={isBusy}
+                  className="message-action"
+                  title="Continue the conversation from this answer"
+                >
+                  Continue with this
+                </button>
+              )}
+            </div>
+            <MessageItem
+              message={reply}
+              siblingIds={[reply.id]}
+              isPending={isStreaming && !reply.content}
+              isStreaming={isStreaming}
+              isBusy={isBusy}
+              onSelectBranch={onChoose}
+              onEdit={() => {}}
+              onRegenerate={onRegenerate}
+              onRetry={onRetry}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
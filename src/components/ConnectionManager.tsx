@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { normalizeBaseUrl, validateBaseUrl } from '../services/connectionService';
+import type { ConnectionProfile } from '../services/connectionService';
+import type { ChatProvider } from '../services/providers';
+
+interface ConnectionManagerProps {
+  provider: ChatProvider; // Connections are tested against the selected provider's API
+  profiles: ConnectionProfile[];
+  activeProfileId: string;
+  onChange: (profiles: ConnectionProfile[]) => void;
+  onSelect: (profileId: string) => void;
+  onClose: () => void;
+}
+
+// Result of the last "Test connection" per profile
+type TestResult = { ok: true; server: string } | { ok: false; error: string } | 'testing';
+
+// Modal for adding, testing and switching between servers
+export function ConnectionManager({ provider, profiles, activeProfileId, onChange, onSelect, onClose }: ConnectionManagerProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [apiKey, setApiKey] = useState('');
+  const [testResults, setTestResults] = useState<Record<string, TestResult>>({});
+
+  const urlError = baseUrl.trim() ? validateBaseUrl(baseUrl) : '';
+  const canSave = !!name.trim() && !!baseUrl.trim() && !urlError;
+
+  const startEditing = (profile?: ConnectionProfile) => {
+    setEditingId(profile?.id ?? 'new');
+    setName(profile?.name ?? '');
+    setBaseUrl(profile?.baseUrl ?? '');
+    setApiKey(profile?.apiKey ?? '');
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setName('');
+    setBaseUrl('');
+    setApiKey('');
+  };
+
+  const draftProfile = (): ConnectionProfile => ({
+    id: editingId === 'new' || !editingId ? `connection-${Date.now()}` : editingId,
+    name: name.trim(),
+    baseUrl: normalizeBaseUrl(baseUrl),
+    apiKey: apiKey.trim() || undefined
+  });
+
+  const saveProfile = () => {
+    if (!canSave) return;
+
+    const profile = draftProfile();
+    if (editingId === 'new') {
+      onChange([...profiles, profile]);
+    } else {
+      onChange(profiles.map(existing => existing.id === editingId ? profile : existing));
+    }
+    cancelEditing();
+  };
+
+  const deleteProfile = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (profile && confirm(`Delete the connection "${profile.name}"?`)) {
+      onChange(profiles.filter(p => p.id !== profileId));
+    }
+  };
+
+  const testProfile = async (profile: ConnectionProfile) => {
+    setTestResults(prev => ({ ...prev, [profile.id]: 'testing' }));
+    try {
+      const server = await provider.testConnection(profile);
+      setTestResults(prev => ({ ...prev, [profile.id]: { ok: true, server } }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setTestResults(prev => ({ ...prev, [profile.id]: { ok: false, error: message } }));
+    }
+  };
+
+  const renderTestResult = (profileId: string) => {
+    const result = testResults[profileId];
+    if (!result) return null;
+    if (result === 'testing') {
+      return <p className="settings-hint">Testing...</p>;
+    }
+    return result.ok
+      ? <p className="connection-test-ok">Connected ({result.server})</p>
+      : <p className="settings-error">{result.error}</p>;
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="Connections">
+        <div className="modal-header">
+          <h2 className="modal-title">Connections</h2>
+          <button onClick={onClose} className="modal-close" aria-label="Close">×</button>
+        </div>
+
+        <div className="modal-body">
+          {editingId ? (
+            <div className="persona-form">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name, e.g. Home server"
+                className="panel-input"
+                autoFocus
+              />
+              <input
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder="Base URL, e.g. http://localhost:11434"
+                className={`panel-input ${urlError ? 'invalid' : ''}`}
+              />
+              {urlError && <p className="settings-error">{urlError}</p>}
+              <input
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder="API key (optional)"
+                className="panel-input"
+                autoComplete="off"
+              />
+              <p className="settings-hint">
+                Servers on another origin must allow this page through CORS.
+              </p>
+              {renderTestResult(editingId)}
+              <div className="persona-form-actions">
+                <button onClick={cancelEditing} className="panel-button">Cancel</button>
+                <button
+                  onClick={() => testProfile({ ...draftProfile(), id: editingId })}
+                  disabled={!canSave}
+                  className="panel-button"
+                >
+                  Test connection
+                </button>
+                <button onClick={saveProfile} disabled={!canSave} className="panel-button primary">
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <ul className="persona-list">
+                {profiles.map(profile => (
+                  <li key={profile.id} className="persona-item">
+                    <div className="persona-details">
+                      <p className="persona-name">
+                        {profile.name}
+                        {profile.id === activeProfileId && <span className="connection-active"> (active)</span>}
+                      </p>
+                      <p className="persona-prompt">{profile.baseUrl}{profile.apiKey ? ' · API key set' : ''}</p>
+                      {renderTestResult(profile.id)}
+                    </div>
+                    <div className="persona-item-actions">
+                      {profile.id !== activeProfileId && (
+                        <button onClick={() => onSelect(profile.id)} className="panel-button primary">Use</button>
+                      )}
+                      <button onClick={() => testProfile(profile)} className="panel-button">Test</button>
+                      <button onClick={() => startEditing(profile)} className="panel-button">Edit</button>
+                      <button
+                        onClick={() => deleteProfile(profile.id)}
+                        disabled={profiles.length <= 1}
+                        className="panel-button danger"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <button onClick={() => startEditing()} className="panel-button primary">
+                New connection
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
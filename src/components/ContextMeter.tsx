@@ -0,0 +1,28 @@
+import { formatTokenCount } from '../utils/format';
+
+interface ContextMeterProps {
+  used: number; // Tokens in the latest request: prompt plus reply
+  size?: number; // Context window, when known
+}
+
+// Share of the model's context window taken up by the current conversation
+export function ContextMeter({ used, size }: ContextMeterProps) {
+  const ratio = size ? Math.min(used / size, 1) : 0;
+  const level = ratio >= 0.9 ? 'full' : ratio >= 0.7 ? 'high' : '';
+
+  return (
+    <div
+      className={`context-meter ${level}`}
+      title={size
+        ? `The last reply used ${used.toLocaleString()} of ${size.toLocaleString()} context tokens`
+        : `The last reply used ${used.toLocaleString()} context tokens`}
+    >
+      {size && (
+        <div className="context-meter-bar">
+          <div className="context-meter-fill" style={{ width: `${ratio * 100}%` }} />
+        </div>
+      )}
+      <span>{formatTokenCount(used)}{size ? ` / ${formatTokenCount(size)}` : ''} tokens</span>
+    </div>
+  );
+}
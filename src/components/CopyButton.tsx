@@ -0,0 +1,25 @@
+import { useState } from 'react';
+import { copyToClipboard } from '../utils/clipboard';
+
+interface CopyButtonProps {
+  text: string;
+  label?: string;
+  className?: string;
+}
+
+// Button that copies text and briefly confirms it
+export function CopyButton({ text, label = 'Copy', className = 'message-action' }: CopyButtonProps) {
+  const [status, setStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  const handleClick = async () => {
+    const copied = await copyToClipboard(text);
+    setStatus(copied ? 'copied' : 'failed');
+    setTimeout(() => setStatus('idle'), 1500);
+  };
+
+  return (
+    <button type="button" onClick={handleClick} className={className}>
+      {status === 'copied' ? 'Copied!' : status === 'failed' ? 'Copy failed' : label}
+    </button>
+  );
+}
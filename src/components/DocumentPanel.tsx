@@ -0,0 +1,177 @@
+import { useEffect, useRef, useState } from 'react';
+import { ollamaService, isAbortError } from '../services/ollamaService';
+import { documentIndex } from '../services/documentIndex';
+import type { KnowledgeBase, TabDocument } from '../services/documentIndex';
+import { ACCEPTED_DOCUMENT_EXTENSIONS, readDocumentFile } from '../utils/documents';
+
+interface DocumentPanelProps {
+  tabId: string;
+  knowledge?: KnowledgeBase;
+  onAdd: (embeddingModel: string, document: TabDocument) => void;
+  onRemove: (documentId: string) => void;
+}
+
+interface IndexProgress {
+  name: string;
+  done: number;
+  total: number;
+}
+
+// Embedding models usually say so in their name or use a BERT architecture
+const looksLikeEmbeddingModel = (name: string, family?: string) =>
+  name.toLowerCase().includes('embed') || !!family?.toLowerCase().includes('bert');
+
+// Collapsible list of the documents attached to the active tab. Files are
+// chunked, embedded and stored here; the tab only lists the documents.
+export function DocumentPanel({ tabId, knowledge, onAdd, onRemove }: DocumentPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [embeddingModels, setEmbeddingModels] = useState<string[]>([]);
+  const [embeddingModel, setEmbeddingModel] = useState(knowledge?.embeddingModel ?? '');
+  const [progress, setProgress] = useState<IndexProgress | null>(null);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const documents = knowledge?.documents ?? [];
+
+  // Embeddings always come from Ollama, whichever provider the chat uses
+  useEffect(() => {
+    if (!isExpanded || embeddingModels.length > 0) return;
+
+    ollamaService.getModels()
+      .then(models => {
+        setEmbeddingModels(models.map(model => model.name));
+        const preferred = models.find(model => looksLikeEmbeddingModel(model.name, model.details?.family));
+        setEmbeddingModel(current => current || preferred?.name || models[0]?.name || '');
+      })
+      .catch(() => setError('Could not load models from Ollama'));
+  }, [isExpanded, embeddingModels.length]);
+
+  // Stop indexing when the panel goes away, e.g. on switching tabs
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0 || !embeddingModel) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setError('');
+    try {
+      for (const file of files) {
+        setProgress({ name: file.name, done: 0, total: 0 });
+        const text = await readDocumentFile(file);
+        const document = await documentIndex.addDocument(
+          tabId,
+          embeddingModel,
+          file.name,
+          text,
+          (done, total) => setProgress({ name: file.name, done, total }),
+          controller.signal
+        );
+        onAdd(embeddingModel, document);
+      }
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Failed to index document:', error);
+        setError(error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="system-prompt-panel document-panel">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="system-prompt-toggle"
+        aria-expanded={isExpanded}
+      >
+        <span className="system-prompt-label">Documents</span>
+        <span className="system-prompt-summary">
+          {documents.length > 0 ? documents.map(document => document.name).join(', ') : 'None'}
+        </span>
+        <span aria-hidden="true">{isExpanded ? '▲' : '▼'}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="system-prompt-editor">
+          <p className="settings-hint">
+            Excerpts that match each question are sent along with it, and the reply cites them.
+          </p>
+          <div className="system-prompt-actions">
+            <select
+              value={embeddingModel}
+              onChange={(e) => setEmbeddingModel(e.target.value)}
+              // Every chunk of a tab must come from the same model to be comparable
+              disabled={documents.length > 0 || !!progress}
+              className="persona-select"
+              aria-label="Embedding model"
+            >
+              {embeddingModels.length === 0 && <option value={embeddingModel}>{embeddingModel || 'No models'}</option>}
+              {embeddingModels.map(model => (
+                <option key={model} value={model}>{model}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!embeddingModel || !!progress}
+              className="panel-button"
+            >
+              Attach files
+            </button>
+            {progress && (
+              <button
+                type="button"
+                onClick={() => abortControllerRef.current?.abort()}
+                className="panel-button"
+              >
+                Cancel
+              </button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={['text/*', ...ACCEPTED_DOCUMENT_EXTENSIONS].join(',')}
+              multiple
+              hidden
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files ?? []));
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {progress && (
+            <p className="settings-hint" role="status">
+              Indexing {progress.name}{progress.total > 0 ? ` (${progress.done}/${progress.total} chunks)` : '...'}
+            </p>
+          )}
+          {error && <p className="settings-error">{error}</p>}
+
+          {documents.length > 0 && (
+            <ul className="document-list">
+              {documents.map(document => (
+                <li key={document.id} className="document-item">
+                  <span className="document-name">{document.name}</span>
+                  <span className="document-meta">{document.chunkCount} chunks</span>
+                  <button
+                    type="button"
+                    onClick={() => onRemove(document.id)}
+                    className="document-remove"
+                    aria-label={`Remove ${document.name}`}
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
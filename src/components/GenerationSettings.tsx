@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { ollamaService } from '../services/ollamaService';
+import type { ModelOptions } from '../services/ollamaService';
+import { CONTEXT_STRATEGIES } from '../services/contextManager';
+import type { ContextStrategy } from '../services/contextManager';
+import {
+  KEEP_ALIVE_OPTIONS,
+  NUMERIC_OPTION_FIELDS,
+  parseDraft,
+  parseModelParameters,
+  toDraft
+} from '../utils/modelOptions';
+import type { ModelOptionsDraft } from '../utils/modelOptions';
+import { parseSchema } from '../utils/jsonSchema';
+import type { OutputFormat } from '../utils/jsonSchema';
+import type { TabSettings } from '../types/chat';
+import { SchemaEditor } from './SchemaEditor';
+
+interface GenerationSettingsProps {
+  options: ModelOptions;
+  contextStrategy: ContextStrategy;
+  format?: OutputFormat;
+  think?: boolean;
+  excludeThinking?: boolean;
+  keepAlive?: string;
+  model: string;
+  onSave: (settings: TabSettings) => void;
+  onClose: () => void;
+}
+
+type FormatMode = 'text' | 'json' | 'schema';
+type ThinkMode = 'default' | 'on' | 'off';
+
+// Side drawer for editing the active tab's generation parameters
+export function GenerationSettings({
+  options,
+  contextStrategy,
+  format,
+  think,
+  excludeThinking = false,
+  keepAlive = '',
+  model,
+  onSave,
+  onClose
+}: GenerationSettingsProps) {
+  const [draft, setDraft] = useState<ModelOptionsDraft>(toDraft(options));
+  const [strategy, setStrategy] = useState(contextStrategy);
+  const [thinkMode, setThinkMode] = useState<ThinkMode>(think === undefined ? 'default' : think ? 'on' : 'off');
+  const [leaveOutThinking, setLeaveOutThinking] = useState(excludeThinking);
+  const [keepModelLoaded, setKeepModelLoaded] = useState(keepAlive);
+  const [formatMode, setFormatMode] = useState<FormatMode>(
+    format === undefined ? 'text' : format === 'json' ? 'json' : 'schema'
+  );
+  const [schemaText, setSchemaText] = useState(
+    typeof format === 'object' ? JSON.stringify(format, null, 2) : ''
+  );
+  const [isResetting, setIsResetting] = useState(false);
+  const [resetError, setResetError] = useState('');
+
+  const { options: parsedOptions, errors } = parseDraft(draft);
+  const { schema, error: schemaError } = formatMode === 'schema' ? parseSchema(schemaText) : {};
+  const hasErrors = Object.keys(errors).length > 0 || !!schemaError;
+
+  const updateField = (key: keyof ModelOptionsDraft, value: string) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const resetToModelDefaults = async () => {
+    if (!model) return;
+
+    setIsResetting(true);
+    setResetError('');
+    try {
+      const info = await ollamaService.getModelInfo(model);
+      setDraft(toDraft(parseModelParameters(info.parameters)));
+    } catch (error) {
+      console.error('Failed to load model defaults:', error);
+      setResetError(`Could not load defaults for ${model}`);
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (hasErrors) return;
+    onSave({
+      options: parsedOptions,
+      contextStrategy: strategy,
+      format: formatMode === 'json' ? 'json' : schema,
+      think: thinkMode === 'default' ? undefined : thinkMode === 'on',
+      excludeThinking: leaveOutThinking || undefined,
+      keepAlive: keepModelLoaded || undefined
+    });
+    onClose();
+  };
+
+  return (
+    <div className="drawer-overlay" onClick={onClose}>
+      <aside className="drawer" onClick={(e) => e.stopPropagation()} aria-label="Generation settings">
+        <div className="modal-header">
+          <h2 className="modal-title">Generation settings</h2>
+          <button onClick={onClose} className="modal-close" aria-label="Close">×</button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="settings-form">
+          <p className="settings-hint">Leave a field empty to use the model's default.</p>
+
+          {NUMERIC_OPTION_FIELDS.map(field => (
+            <label key={field.key} className="settings-field">
+              <span className="settings-label">{field.label}</span>
+              <input
+                type="number"
+                value={draft[field.key]}
+                onChange={(e) => updateField(field.key, e.target.value)}
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                className={`panel-input ${errors[field.key] ? 'invalid' : ''}`}
+              />
+              <span className={errors[field.key] ? 'settings-error' : 'settings-hint'}>
+                {errors[field.key] || field.hint}
+              </span>
+            </label>
+          ))}
+
+          <label className="settings-field">
+            <span className="settings-label">Stop sequences</span>
+            <textarea
+              value={draft.stop}
+              onChange={(e) => updateField('stop', e.target.value)}
+              placeholder="One per line"
+              className="system-prompt-textarea"
+              rows={3}
+            />
+          </label>
+
+          <label className="settings-field">
+            <span className="settings-label">When the chat outgrows the context</span>
+            <select
+              value={strategy}
+              onChange={(e) => setStrategy(e.target.value as ContextStrategy)}
+              className="panel-input"
+            >
+              {CONTEXT_STRATEGIES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <span className="settings-hint">The system prompt and your latest message are always sent</span>
+          </label>
+
+          <label className="settings-field">
+            <span className="settings-label">Reply format</span>
+            <select
+              value={formatMode}
+              onChange={(e) => setFormatMode(e.target.value as FormatMode)}
+              className="panel-input"
+            >
+              <option value="text">Text</option>
+              <option value="json">JSON</option>
+              <option value="schema">JSON matching a schema</option>
+            </select>
+            <span className="settings-hint">Structured replies are checked and shown as a JSON tree</span>
+          </label>
+
+          {formatMode === 'schema' && (
+            <SchemaEditor
+              text={schemaText}
+              error={schemaText.trim() ? schemaError : 'Paste a JSON Schema or build one from fields'}
+              onChange={setSchemaText}
+            />
+          )}
+
+          <label className="settings-field">
+            <span className="settings-label">Thinking</span>
+            <select
+              value={thinkMode}
+              onChange={(e) => setThinkMode(e.target.value as ThinkMode)}
+              className="panel-input"
+            >
+              <option value="default">Model default</option>
+              <option value="on">On</option>
+              <option value="off">Off</option>
+            </select>
+            <span className="settings-hint">Only applies to models that can reason before answering</span>
+          </label>
+
+          <label className="settings-checkbox">
+            <input
+              type="checkbox"
+              checked={leaveOutThinking}
+              onChange={(e) => setLeaveOutThinking(e.target.checked)}
+            />
+            Leave earlier reasoning out of the context
+          </label>
+
+          <label className="settings-field">
+            <span className="settings-label">Keep the model loaded</span>
+            <select
+              value={keepModelLoaded}
+              onChange={(e) => setKeepModelLoaded(e.target.value)}
+              className="panel-input"
+            >
+              <option value="">Server default</option>
+              {KEEP_ALIVE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <span className="settings-hint">How long Ollama holds the model in memory after a reply</span>
+          </label>
+
+          {resetError && <p className="settings-error">{resetError}</p>}
+
+          <div className="settings-actions">
+            <button
+              type="button"
+              onClick={resetToModelDefaults}
+              disabled={!model || isResetting}
+              className="panel-button"
+            >
+              {isResetting ? 'Loading...' : 'Reset to model defaults'}
+            </button>
+            <button type="submit" disabled={hasErrors} className="panel-button primary">
+              Save
+            </button>
+          </div>
+        </form>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useRef, useState } from 'react';
+import { documentIndex } from '../services/documentIndex';
+import type { Tab } from '../types/chat';
+import {
+  exportTabToMarkdown,
+  exportTabsToJson,
+  importTabsFromJson
+} from '../utils/conversationExport';
+import { downloadFile, toFileName } from '../utils/download';
+
+interface ImportExportMenuProps {
+  tabs: Tab[];
+  activeTab: Tab;
+  onImport: (tabs: Tab[]) => void;
+}
+
+// Tab bar menu for backing up chats and restoring them from a file
+export function ImportExportMenu({ tabs, activeTab, onImport }: ImportExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // The tab bar scrolls horizontally, so the menu is positioned against the viewport
+  const [menuPosition, setMenuPosition] = useState({ top: 0, left: 0 });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const toggleMenu = (e: React.MouseEvent<HTMLButtonElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setMenuPosition({ top: rect.bottom, left: rect.left });
+    setIsOpen(!isOpen);
+  };
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  // Document chunks are stored apart from the tabs, so they are read first
+  const exportJson = async (fileName: string, exportedTabs: Tab[]) => {
+    setIsOpen(false);
+    try {
+      const documentChunks = await documentIndex.exportChunks(exportedTabs);
+      downloadFile(fileName, exportTabsToJson(exportedTabs, documentChunks), 'application/json');
+    } catch (error) {
+      console.error('Failed to export chats:', error);
+      alert(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const exportActiveJson = () => exportJson(`${toFileName(activeTab.name)}-${today}.json`, [activeTab]);
+
+  const exportActiveMarkdown = () => {
+    downloadFile(`${toFileName(activeTab.name)}-${today}.md`, exportTabToMarkdown(activeTab), 'text/markdown');
+    setIsOpen(false);
+  };
+
+  const exportAllJson = () => exportJson(`vibed-chats-${today}.json`, tabs);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    setIsOpen(false);
+    if (!file) return;
+
+    try {
+      const { tabs: parsedTabs, documentChunks } = importTabsFromJson(await file.text(), tabs);
+      // A tab keeps its documents only if their chunks were stored
+      const failedTabIds = await documentIndex.importChunks(documentChunks);
+      const importedTabs = parsedTabs.map(tab =>
+        failedTabIds.includes(tab.id) ? { ...tab, knowledge: undefined } : tab
+      );
+      onImport(importedTabs);
+      alert(`Imported ${importedTabs.length} chat${importedTabs.length === 1 ? '' : 's'}.`);
+    } catch (error) {
+      console.error('Failed to import chats:', error);
+      alert(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <div className="menu-container">
+      <button
+        onClick={toggleMenu}
+        className="import-export-button"
+        aria-label="Import or export chats"
+        aria-expanded={isOpen}
+        title="Import or export chats"
+      >
+        ⇅
+      </button>
+      {isOpen && (
+        <div className="menu" role="menu" style={menuPosition}>
+          <button onClick={exportActiveJson} className="menu-item" role="menuitem">Export this chat (JSON)</button>
+          <button onClick={exportActiveMarkdown} className="menu-item" role="menuitem">Export this chat (Markdown)</button>
+          <button onClick={exportAllJson} className="menu-item" role="menuitem">Export all chats (JSON)</button>
+          <button onClick={() => fileInputRef.current?.click()} className="menu-item" role="menuitem">Import chats...</button>
+        </div>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleFileChange}
+        hidden
+      />
+    </div>
+  );
+}
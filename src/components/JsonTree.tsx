@@ -0,0 +1,61 @@
+import type { SchemaError } from '../utils/jsonSchema';
+
+interface JsonTreeProps {
+  value: unknown;
+  errors: SchemaError[]; // Validation errors anywhere in the document
+  path?: string; // JSON Pointer of this value
+  label?: string; // Property name or array index
+}
+
+// Collapsible view of a JSON value. Values with validation errors are marked
+// and list their messages; containers are open by default.
+export function JsonTree({ value, errors, path = '', label }: JsonTreeProps) {
+  const ownErrors = errors.filter(error => error.path === path);
+  const hasNestedErrors = errors.some(error => error.path.startsWith(`${path}/`));
+  const className = `json-node ${ownErrors.length > 0 ? 'json-invalid' : ''}`;
+  const title = ownErrors.map(error => error.message).join('\n') || undefined;
+  const name = label !== undefined && <span className="json-key">{label}: </span>;
+  const errorList = ownErrors.length > 0 && (
+    <ul className="json-errors">
+      {ownErrors.map((error, index) => <li key={index}>{error.message}</li>)}
+    </ul>
+  );
+
+  if (typeof value === 'object' && value !== null) {
+    const entries = Array.isArray(value)
+      ? value.map((item, index) => [String(index), item] as const)
+      : Object.entries(value);
+    const summary = Array.isArray(value)
+      ? `[${entries.length} item${entries.length === 1 ? '' : 's'}]`
+      : `{${entries.length} key${entries.length === 1 ? '' : 's'}}`;
+
+    return (
+      <details className={`${className} ${hasNestedErrors ? 'json-has-errors' : ''}`} title={title} open>
+        <summary>
+          {name}
+          <span className="json-summary">{summary}</span>
+        </summary>
+        {errorList}
+        <div className="json-children">
+          {entries.map(([key, item]) => (
+            <JsonTree
+              key={key}
+              value={item}
+              errors={errors}
+              path={`${path}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`}
+              label={key}
+            />
+          ))}
+        </div>
+      </details>
+    );
+  }
+
+  return (
+    <div className={className} title={title}>
+      {name}
+      <span className={`json-value json-${value === null ? 'null' : typeof value}`}>{JSON.stringify(value)}</span>
+      {errorList}
+    </div>
+  );
+}
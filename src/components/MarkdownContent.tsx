@@ -0,0 +1,37 @@
+import { memo, useMemo, useState } from 'react';
+import { createMarkdownBlockSplitter, renderMarkdown } from '../utils/markdown';
+import { copyToClipboard } from '../utils/clipboard';
+import '../styles/markdown.css';
+
+// A single top-level block; only re-rendered when its own source changes
+const MarkdownBlock = memo(function MarkdownBlock({ raw }: { raw: string }) {
+  const html = useMemo(() => renderMarkdown(raw), [raw]);
+  return <div className="markdown-block" dangerouslySetInnerHTML={{ __html: html }} />;
+});
+
+// Sanitized Markdown with highlighted, copyable code blocks
+export const MarkdownContent = memo(function MarkdownContent({ content }: { content: string }) {
+  const [splitBlocks] = useState(createMarkdownBlockSplitter);
+  const blocks = useMemo(() => splitBlocks(content), [splitBlocks, content]);
+
+  // Code block copy buttons live in generated HTML, so handle them by delegation
+  const handleClick = async (e: React.MouseEvent<HTMLDivElement>) => {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('.code-copy-button');
+    const code = button?.closest('.code-block')?.querySelector('code')?.textContent;
+    if (!button || code == null) return;
+
+    const copied = await copyToClipboard(code);
+    button.textContent = copied ? 'Copied!' : 'Copy failed';
+    setTimeout(() => {
+      button.textContent = 'Copy';
+    }, 1500);
+  };
+
+  return (
+    <div className="message-content markdown-content" onClick={handleClick}>
+      {blocks.map((block, index) => (
+        <MarkdownBlock key={index} raw={block} />
+      ))}
+    </div>
+  );
+});
@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import type { MessageNode } from '../types/chat';
+import { MarkdownContent } from './MarkdownContent';
+import { CopyButton } from './CopyButton';
+import { ToolSteps } from './ToolSteps';
+import { StructuredReply } from './StructuredReply';
+import { CitationList } from './CitationList';
+import { ThinkingBlock } from './ThinkingBlock';
+import { imageDataUrl } from '../utils/images';
+import { formatDuration, formatTokenCount } from '../utils/format';
+
+interface MessageItemProps {
+  message: MessageNode;
+  siblingIds: string[]; // Alternative versions of this message, including itself
+  isPending: boolean; // Waiting for the first token of this reply
+  isStreaming?: boolean; // The reply is still being written
+  isHighlighted?: boolean; // Just opened from search
+  isBusy: boolean; // A reply is generating, so editing is disabled
+  // Whether the next request leaves this message out or sends it summarized
+  contextState?: 'excluded' | 'summarized';
+  onSelectBranch: (nodeId: string) => void;
+  onEdit: (nodeId: string, content: string) => void;
+  onRegenerate: (nodeId: string) => void;
+  onRetry: (nodeId: string) => void;
+  onTogglePin?: (nodeId: string) => void; // Only offered with the keep-pinned strategy
+}
+
+// A single chat bubble with branch navigation, copy, edit and regenerate actions
+export function MessageItem({
+  message,
+  siblingIds,
+  isPending,
+  isStreaming = false,
+  isHighlighted = false,
+  isBusy,
+  contextState,
+  onSelectBranch,
+  onEdit,
+  onRegenerate,
+  onRetry,
+  onTogglePin
+}: MessageItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const isUser = message.role === 'user';
+  const branchIndex = siblingIds.indexOf(message.id);
+  const footer = isUser ? null : describeReply(message);
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim()) return;
+    setIsEditing(false);
+    onEdit(message.id, draft);
+  };
+
+  return (
+    <div
+      id={`message-${message.id}`}
+      className={[
+        'message',
+        isUser ? 'user-message' : 'ai-message',
+        isHighlighted ? 'message-highlighted' : '',
+        contextState ? `message-${contextState}` : ''
+      ].join(' ')}
+    >
+      <div className="message-header">
+        <p className="message-role">
+          {isUser ? 'User:' : 'AI:'}
+          {contextState === 'excluded' && (
+            <span className="message-context-note" title="Too old to fit in the model's context">
+              Outside context
+            </span>
+          )}
+          {message.pinned && onTogglePin && <span className="message-context-note">Pinned</span>}
+        </p>
+        <div className="message-actions">
+          {siblingIds.length > 1 && (
+            <span className="branch-switcher">
+              <button
+                onClick={() => onSelectBranch(siblingIds[branchIndex - 1])}
+                disabled={isBusy || branchIndex <= 0}
+                className="branch-button"
+                aria-label="Previous version"
+              >
+                ‹
+              </button>
+              {branchIndex + 1}/{siblingIds.length}
+              <button
+                onClick={() => onSelectBranch(siblingIds[branchIndex + 1])}
+                disabled={isBusy || branchIndex >= siblingIds.length - 1}
+                className="branch-button"
+                aria-label="Next version"
+              >
+                ›
+              </button>
+            </span>
+          )}
+          {message.content && <CopyButton text={message.content} />}
+          {onTogglePin && (
+            <button onClick={() => onTogglePin(message.id)} className="message-action">
+              {message.pinned ? 'Unpin' : 'Pin'}
+            </button>
+          )}
+          {isUser && !isEditing && (
+            <button onClick={startEditing} disabled={isBusy} className="message-action">
+              Edit
+            </button>
+          )}
+          {!isUser && (
+            <button onClick={() => onRegenerate(message.id)} disabled={isBusy} className="message-action">
+              Regenerate
+            </button>
+          )}
+        </div>
+      </div>
+
+      {message.images && message.images.length > 0 && (
+        <div className="message-images">
+          {message.images.map((image, index) => (
+            <img
+              key={index}
+              src={imageDataUrl(image)}
+              alt={`Attachment ${index + 1}`}
+              className="message-image"
+            />
+          ))}
+        </div>
+      )}
+
+      {message.thinking && (
+        <ThinkingBlock
+          thinking={message.thinking}
+          duration={message.thinkingDuration}
+          isThinking={isStreaming && message.thinkingDuration === undefined}
+        />
+      )}
+
+      {message.toolSteps && message.toolSteps.length > 0 && <ToolSteps steps={message.toolSteps} />}
+
+      {isEditing ? (
+        <div className="message-editor">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="system-prompt-textarea"
+            rows={3}
+            autoFocus
+          />
+          <div className="persona-form-actions">
+            <button onClick={() => setIsEditing(false)} className="panel-button">Cancel</button>
+            <button
+              onClick={submitEdit}
+              disabled={isBusy || !draft.trim()}
+              className="panel-button primary"
+            >
+              Save & send
+            </button>
+          </div>
+        </div>
+      ) : isUser ? (
+        <p className="message-content">{message.content}</p>
+      ) : isPending && !message.toolSteps?.length && !message.thinking ? (
+        <p className="message-pending">…</p>
+      ) : message.format && message.content && !isStreaming ? (
+        <StructuredReply content={message.content} format={message.format} fileName={`reply-${message.id}.json`} />
+      ) : message.content ? (
+        <MarkdownContent content={message.content} />
+      ) : null}
+
+      {message.citations && message.citations.length > 0 && <CitationList citations={message.citations} />}
+
+      {message.error && (
+        <div className="message-error" role="alert">
+          <p>{message.error}</p>
+          <button onClick={() => onRetry(message.id)} disabled={isBusy} className="panel-button">
+            Retry
+          </button>
+        </div>
+      )}
+
+      {message.stopped && !message.error && (
+        <p className="message-stopped">Stopped</p>
+      )}
+
+      {footer && (
+        <p className="message-footer" title={footer.details}>{footer.summary}</p>
+      )}
+    </div>
+  );
+}
+
+// Footer text for an assistant reply, e.g. "42 tok/s · 812 tokens · llama3",
+// plus the remaining stats for its tooltip
+const describeReply = ({ stats = {}, model }: MessageNode) => {
+  const summary = [
+    stats.eval_count && stats.eval_duration
+      ? `${(stats.eval_count / (stats.eval_duration / 1e9)).toFixed(1)} tok/s`
+      : '',
+    stats.eval_count !== undefined ? `${formatTokenCount(stats.eval_count)} tokens` : '',
+    model ?? ''
+  ].filter(Boolean);
+  if (summary.length === 0) return null;
+
+  const details = [
+    stats.prompt_eval_count !== undefined ? `Prompt: ${stats.prompt_eval_count.toLocaleString()} tokens` : '',
+    stats.eval_count !== undefined ? `Reply: ${stats.eval_count.toLocaleString()} tokens` : '',
+    stats.load_duration !== undefined ? `Model load: ${formatDuration(stats.load_duration)}` : '',
+    stats.total_duration !== undefined ? `Total: ${formatDuration(stats.total_duration)}` : ''
+  ].filter(Boolean);
+
+  return { summary: summary.join(' · '), details: details.join('\n') || undefined };
+};
@@ -0,0 +1,278 @@
+import { useEffect, useRef, useState } from 'react';
+import { ollamaService, isAbortError } from '../services/ollamaService';
+import type { ModelDetails, ModelInfo, PullProgress } from '../services/ollamaService';
+import { formatBytes, formatDate } from '../utils/format';
+import '../styles/modelManager.css';
+
+interface ModelManagerProps {
+  onModelsChanged: () => void;
+  onClose: () => void;
+}
+
+interface PullState {
+  status: string;
+  layers: Record<string, { total: number; completed: number }>;
+  error?: string;
+}
+
+// Modal for pulling, inspecting, copying and deleting models
+export function ModelManager({ onModelsChanged, onClose }: ModelManagerProps) {
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(true);
+  const [listError, setListError] = useState('');
+  const [pullName, setPullName] = useState('');
+  const [pulls, setPulls] = useState<Record<string, PullState>>({});
+  const [inspected, setInspected] = useState<{ name: string; details?: ModelDetails; error?: string } | null>(null);
+  const pullControllersRef = useRef(new Map<string, AbortController>());
+
+  const refreshModels = async () => {
+    try {
+      const modelList = await ollamaService.getModels();
+      setModels([...modelList].sort((a, b) => a.name.localeCompare(b.name)));
+      setListError('');
+    } catch (error) {
+      console.error('Failed to load models:', error);
+      setListError('Could not load models from the server.');
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
+  // Refresh both this list and the header's model picker
+  const handleModelsChanged = async () => {
+    await refreshModels();
+    onModelsChanged();
+  };
+
+  useEffect(() => {
+    refreshModels();
+    // Stop any downloads that are still running when the manager closes
+    const controllers = pullControllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  const updatePull = (name: string, updater: (pull: PullState) => PullState) => {
+    setPulls(prev => prev[name] ? { ...prev, [name]: updater(prev[name]) } : prev);
+  };
+
+  const removePull = (name: string) => {
+    setPulls(prev => {
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+  };
+
+  const startPull = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = pullName.trim();
+    if (!name || pullControllersRef.current.has(name)) return;
+
+    const controller = new AbortController();
+    pullControllersRef.current.set(name, controller);
+    setPulls(prev => ({ ...prev, [name]: { status: 'Starting...', layers: {} } }));
+    setPullName('');
+
+    try {
+      await ollamaService.pullModel(name, (progress: PullProgress) => {
+        updatePull(name, pull => ({
+          status: progress.status,
+          layers: progress.digest && progress.total
+            ? { ...pull.layers, [progress.digest]: { total: progress.total, completed: progress.completed ?? 0 } }
+            : pull.layers
+        }));
+      }, { signal: controller.signal });
+
+      removePull(name);
+      await handleModelsChanged();
+    } catch (error) {
+      if (isAbortError(error)) {
+        removePull(name);
+      } else {
+        console.error('Failed to pull model:', error);
+        updatePull(name, pull => ({ ...pull, error: error instanceof Error ? error.message : String(error) }));
+      }
+    } finally {
+      pullControllersRef.current.delete(name);
+    }
+  };
+
+  const dismissPull = (name: string) => {
+    pullControllersRef.current.get(name)?.abort();
+    removePull(name);
+  };
+
+  const inspectModel = async (name: string) => {
+    setInspected({ name });
+    try {
+      const details = await ollamaService.getModelInfo(name);
+      setInspected(current => current?.name === name ? { name, details } : current);
+    } catch {
+      setInspected(current => current?.name === name ? { name, error: 'Could not load model details.' } : current);
+    }
+  };
+
+  const copyModel = async (name: string) => {
+    const destination = prompt(`Copy "${name}" as:`, `${name.split(':')[0]}-copy`);
+    if (!destination?.trim()) return;
+
+    try {
+      await ollamaService.copyModel(name, destination.trim());
+      await handleModelsChanged();
+    } catch (error) {
+      alert(`Copy failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const deleteModel = async (name: string) => {
+    if (!confirm(`Delete the model "${name}" from the server? This cannot be undone.`)) return;
+
+    try {
+      await ollamaService.deleteModel(name);
+      if (inspected?.name === name) setInspected(null);
+      await handleModelsChanged();
+    } catch (error) {
+      alert(`Delete failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const details = inspected?.details?.details;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal model-manager" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="Models">
+        <div className="modal-header">
+          <h2 className="modal-title">Models</h2>
+          <button onClick={onClose} className="modal-close" aria-label="Close">×</button>
+        </div>
+
+        <div className="modal-body">
+          <form onSubmit={startPull} className="pull-form">
+            <input
+              value={pullName}
+              onChange={(e) => setPullName(e.target.value)}
+              placeholder="Model to pull, e.g. llama3.2:3b"
+              className="panel-input"
+            />
+            <button type="submit" disabled={!pullName.trim()} className="panel-button primary">
+              Pull
+            </button>
+          </form>
+
+          {Object.entries(pulls).map(([name, pull]) => {
+            const layers = Object.values(pull.layers);
+            const total = layers.reduce((sum, layer) => sum + layer.total, 0);
+            const completed = layers.reduce((sum, layer) => sum + layer.completed, 0);
+            const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
+
+            return (
+              <div key={name} className="pull-progress">
+                <div className="pull-progress-header">
+                  <span className="pull-progress-name">{name}</span>
+                  <button onClick={() => dismissPull(name)} className="message-action visible">
+                    {pull.error ? 'Dismiss' : 'Cancel'}
+                  </button>
+                </div>
+                {pull.error ? (
+                  <p className="settings-error">{pull.error}</p>
+                ) : (
+                  <>
+                    <div className="progress-bar">
+                      <div className="progress-bar-fill" style={{ width: `${percent}%` }} />
+                    </div>
+                    <p className="settings-hint">
+                      {pull.status}
+                      {total > 0 && ` · ${formatBytes(completed)} / ${formatBytes(total)} (${percent}%)`}
+                    </p>
+                  </>
+                )}
+              </div>
+            );
+          })}
+
+          {listError && <p className="settings-error">{listError}</p>}
+
+          {isLoadingModels ? (
+            <p className="empty-chat-text">Loading models...</p>
+          ) : (
+            <table className="model-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Size</th>
+                  <th>Modified</th>
+                  <th aria-label="Actions" />
+                </tr>
+              </thead>
+              <tbody>
+                {models.map(model => (
+                  <tr key={model.name} className={inspected?.name === model.name ? 'selected' : ''}>
+                    <td>
+                      <span className="model-name">{model.name}</span>
+                      {model.details && (
+                        <span className="settings-hint">
+                          {[model.details.family, model.details.parameter_size, model.details.quantization_level]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </span>
+                      )}
+                    </td>
+                    <td>{formatBytes(model.size)}</td>
+                    <td>{formatDate(model.modified_at)}</td>
+                    <td className="model-actions">
+                      <button onClick={() => inspectModel(model.name)} className="panel-button">Details</button>
+                      <button onClick={() => copyModel(model.name)} className="panel-button">Copy</button>
+                      <button onClick={() => deleteModel(model.name)} className="panel-button danger">Delete</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {inspected && (
+            <section className="model-details">
+              <h3 className="model-details-title">{inspected.name}</h3>
+              {inspected.error ? (
+                <p className="settings-error">{inspected.error}</p>
+              ) : !inspected.details ? (
+                <p className="empty-chat-text">Loading details...</p>
+              ) : (
+                <>
+                  <dl className="model-details-grid">
+                    <dt>Family</dt>
+                    <dd>{details?.families?.join(', ') || details?.family || '—'}</dd>
+                    <dt>Parameters</dt>
+                    <dd>{details?.parameter_size || '—'}</dd>
+                    <dt>Quantization</dt>
+                    <dd>{details?.quantization_level || '—'}</dd>
+                    <dt>Format</dt>
+                    <dd>{details?.format || '—'}</dd>
+                  </dl>
+                  {inspected.details.parameters && (
+                    <details open>
+                      <summary>Default parameters</summary>
+                      <pre className="model-details-pre">{inspected.details.parameters}</pre>
+                    </details>
+                  )}
+                  {inspected.details.template && (
+                    <details>
+                      <summary>Template</summary>
+                      <pre className="model-details-pre">{inspected.details.template}</pre>
+                    </details>
+                  )}
+                  {inspected.details.license && (
+                    <details>
+                      <summary>License</summary>
+                      <pre className="model-details-pre">{inspected.details.license}</pre>
+                    </details>
+                  )}
+                </>
+              )}
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
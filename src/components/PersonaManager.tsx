@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import type { Persona } from '../types/chat';
+
+interface PersonaManagerProps {
+  personas: Persona[];
+  onChange: (personas: Persona[]) => void;
+  onClose: () => void;
+}
+
+// Modal for creating, editing and deleting persona presets
+export function PersonaManager({ personas, onChange, onClose }: PersonaManagerProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [systemPrompt, setSystemPrompt] = useState('');
+
+  const startEditing = (persona?: Persona) => {
+    setEditingId(persona?.id ?? 'new');
+    setName(persona?.name ?? '');
+    setSystemPrompt(persona?.systemPrompt ?? '');
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setName('');
+    setSystemPrompt('');
+  };
+
+  const savePersona = () => {
+    if (!name.trim() || !systemPrompt.trim()) return;
+
+    if (editingId === 'new') {
+      onChange([...personas, { id: `persona-${Date.now()}`, name: name.trim(), systemPrompt }]);
+    } else {
+      onChange(personas.map(persona =>
+        persona.id === editingId
+          ? { ...persona, name: name.trim(), systemPrompt }
+          : persona
+      ));
+    }
+    cancelEditing();
+  };
+
+  const deletePersona = (personaId: string) => {
+    const persona = personas.find(p => p.id === personaId);
+    if (persona && confirm(`Delete the persona "${persona.name}"?`)) {
+      onChange(personas.filter(p => p.id !== personaId));
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="Personas">
+        <div className="modal-header">
+          <h2 className="modal-title">Personas</h2>
+          <button onClick={onClose} className="modal-close" aria-label="Close">×</button>
+        </div>
+
+        <div className="modal-body">
+          {editingId ? (
+            <div className="persona-form">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name, e.g. Code reviewer"
+                className="panel-input"
+                autoFocus
+              />
+              <textarea
+                value={systemPrompt}
+                onChange={(e) => setSystemPrompt(e.target.value)}
+                placeholder="System prompt"
+                className="system-prompt-textarea"
+                rows={6}
+              />
+              <div className="persona-form-actions">
+                <button onClick={cancelEditing} className="panel-button">Cancel</button>
+                <button
+                  onClick={savePersona}
+                  disabled={!name.trim() || !systemPrompt.trim()}
+                  className="panel-button primary"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {personas.length === 0 ? (
+                <p className="empty-chat-text">No personas yet</p>
+              ) : (
+                <ul className="persona-list">
+                  {personas.map(persona => (
+                    <li key={persona.id} className="persona-item">
+                      <div className="persona-details">
+                        <p className="persona-name">{persona.name}</p>
+                        <p className="persona-prompt">{persona.systemPrompt}</p>
+                      </div>
+                      <div className="persona-item-actions">
+                        <button onClick={() => startEditing(persona)} className="panel-button">Edit</button>
+                        <button onClick={() => deletePersona(persona.id)} className="panel-button danger">Delete</button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <button onClick={() => startEditing()} className="panel-button primary">
+                New persona
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
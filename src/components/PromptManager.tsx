@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import type { SavedPrompt } from '../types/chat';
+import { extractVariables, toCommandName } from '../utils/promptTemplates';
+import { findBuiltInCommand } from '../utils/slashCommands';
+
+interface PromptManagerProps {
+  prompts: SavedPrompt[];
+  onChange: (prompts: SavedPrompt[]) => void;
+  onClose: () => void;
+}
+
+// Modal for creating, editing and deleting saved prompts
+export function PromptManager({ prompts, onChange, onClose }: PromptManagerProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [content, setContent] = useState('');
+
+  const commandName = toCommandName(name);
+  const nameError = !name.trim()
+    ? ''
+    : !commandName
+      ? 'Use at least one letter or number'
+      : findBuiltInCommand(commandName)
+        ? `/${commandName} is a built-in command`
+        : prompts.some(prompt => prompt.id !== editingId && toCommandName(prompt.name) === commandName)
+          ? `Another prompt is already called /${commandName}`
+          : '';
+  const canSave = !!name.trim() && !!content.trim() && !nameError;
+
+  const startEditing = (prompt?: SavedPrompt) => {
+    setEditingId(prompt?.id ?? 'new');
+    setName(prompt?.name ?? '');
+    setContent(prompt?.content ?? '');
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setName('');
+    setContent('');
+  };
+
+  const savePrompt = () => {
+    if (!canSave) return;
+
+    if (editingId === 'new') {
+      onChange([...prompts, { id: `prompt-${Date.now()}`, name: name.trim(), content }]);
+    } else {
+      onChange(prompts.map(prompt =>
+        prompt.id === editingId
+          ? { ...prompt, name: name.trim(), content }
+          : prompt
+      ));
+    }
+    cancelEditing();
+  };
+
+  const deletePrompt = (promptId: string) => {
+    const prompt = prompts.find(p => p.id === promptId);
+    if (prompt && confirm(`Delete the prompt "${prompt.name}"?`)) {
+      onChange(prompts.filter(p => p.id !== promptId));
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="Prompt library">
+        <div className="modal-header">
+          <h2 className="modal-title">Prompt library</h2>
+          <button onClick={onClose} className="modal-close" aria-label="Close">×</button>
+        </div>
+
+        <div className="modal-body">
+          {editingId ? (
+            <div className="persona-form">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name, e.g. Write tests"
+                className={`panel-input ${nameError ? 'invalid' : ''}`}
+                autoFocus
+              />
+              <span className={nameError ? 'settings-error' : 'settings-hint'}>
+                {nameError || (commandName ? `Type /${commandName} in the chat input to use it` : '')}
+              </span>
+              <textarea
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                placeholder="Prompt text, e.g. Write unit tests for {{code}}"
+                className="system-prompt-textarea"
+                rows={6}
+              />
+              <span className="settings-hint">
+                {extractVariables(content).length > 0
+                  ? `Asks for: ${extractVariables(content).join(', ')}`
+                  : 'Add {{name}} placeholders to be asked for values when inserting'}
+              </span>
+              <div className="persona-form-actions">
+                <button onClick={cancelEditing} className="panel-button">Cancel</button>
+                <button onClick={savePrompt} disabled={!canSave} className="panel-button primary">
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {prompts.length === 0 ? (
+                <p className="empty-chat-text">No saved prompts yet</p>
+              ) : (
+                <ul className="persona-list">
+                  {prompts.map(prompt => (
+                    <li key={prompt.id} className="persona-item">
+                      <div className="persona-details">
+                        <p className="persona-name">{prompt.name} <code>/{toCommandName(prompt.name)}</code></p>
+                        <p className="persona-prompt">{prompt.content}</p>
+                      </div>
+                      <div className="persona-item-actions">
+                        <button onClick={() => startEditing(prompt)} className="panel-button">Edit</button>
+                        <button onClick={() => deletePrompt(prompt.id)} className="panel-button danger">Delete</button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <button onClick={() => startEditing()} className="panel-button primary">
+                New prompt
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
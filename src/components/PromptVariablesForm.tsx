@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import type { SavedPrompt } from '../types/chat';
+import { extractVariables, fillTemplate } from '../utils/promptTemplates';
+
+interface PromptVariablesFormProps {
+  prompt: SavedPrompt;
+  onInsert: (text: string) => void;
+  onClose: () => void;
+}
+
+// Modal asking for the values of a saved prompt's {{variables}}
+export function PromptVariablesForm({ prompt, onInsert, onClose }: PromptVariablesFormProps) {
+  const variables = extractVariables(prompt.content);
+  const [values, setValues] = useState<Record<string, string>>(
+    () => Object.fromEntries(variables.map(variable => [variable, '']))
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onInsert(fillTemplate(prompt.content, values));
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()} role="dialog" aria-label={prompt.name}>
+        <div className="modal-header">
+          <h2 className="modal-title">{prompt.name}</h2>
+          <button onClick={onClose} className="modal-close" aria-label="Close">×</button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="modal-body settings-form">
+          {variables.map((variable, index) => (
+            <label key={variable} className="settings-field">
+              <span className="settings-label">{variable}</span>
+              <textarea
+                value={values[variable]}
+                onChange={(e) => setValues(prev => ({ ...prev, [variable]: e.target.value }))}
+                onKeyDown={(e) => {
+                  // Enter inserts, like sending from the chat input
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    e.currentTarget.form?.requestSubmit();
+                  }
+                }}
+                className="system-prompt-textarea"
+                rows={2}
+                autoFocus={index === 0}
+              />
+            </label>
+          ))}
+
+          <div className="settings-field">
+            <span className="settings-label">Preview</span>
+            <pre className="prompt-preview">{fillTemplate(prompt.content, values)}</pre>
+          </div>
+
+          <div className="settings-actions">
+            <button type="button" onClick={onClose} className="panel-button">Cancel</button>
+            <button type="submit" className="panel-button primary">Insert</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ollamaService } from '../services/ollamaService';
+import type { RunningModel } from '../services/ollamaService';
+import { formatBytes } from '../utils/format';
+import '../styles/modelManager.css';
+
+interface RunningModelsProps {
+  models: string[]; // Installed models, offered for preloading
+  selectedModel: string;
+  keepAlive?: string; // The active tab's keep-alive, used when preloading
+  onClose: () => void;
+}
+
+// How often the list is refreshed while open
+const REFRESH_INTERVAL_MS = 5000;
+
+// Expiry times this far ahead mean the model stays loaded indefinitely
+const INDEFINITE_MS = 365 * 24 * 60 * 60 * 1000;
+
+// When a loaded model will be unloaded, e.g. "in 4 min"
+const describeExpiry = (expiresAt: string) => {
+  const remaining = new Date(expiresAt).getTime() - Date.now();
+  if (Number.isNaN(remaining)) return '—';
+  if (remaining > INDEFINITE_MS) return 'Stays loaded';
+  if (remaining <= 0) return 'Unloading';
+  const minutes = Math.round(remaining / 60000);
+  return minutes < 1 ? 'In under a minute' : minutes < 120 ? `In ${minutes} min` : `In ${Math.round(minutes / 60)} h`;
+};
+
+// Memory use, noting how much of the model didn't fit on the GPU
+const describeMemory = ({ size, size_vram }: RunningModel) => {
+  if (size_vram === 0) return `${formatBytes(size)} (CPU only)`;
+  if (size_vram >= size) return `${formatBytes(size_vram)} VRAM`;
+  return `${formatBytes(size_vram)} VRAM, ${Math.round((size_vram / size) * 100)}% on GPU`;
+};
+
+// Modal listing the models Ollama has in memory, with preload and unload actions
+export function RunningModels({ models, selectedModel, keepAlive, onClose }: RunningModelsProps) {
+  const [running, setRunning] = useState<RunningModel[]>([]);
+  const [isLoadingList, setIsLoadingList] = useState(true);
+  const [error, setError] = useState('');
+  const [preloadName, setPreloadName] = useState(selectedModel);
+  const [busyModels, setBusyModels] = useState<Set<string>>(new Set());
+
+  const refresh = useCallback(async () => {
+    try {
+      const list = await ollamaService.listRunning();
+      setRunning([...list].sort((a, b) => a.name.localeCompare(b.name)));
+      setError('');
+    } catch (error) {
+      console.error('Failed to load running models:', error);
+      setError('Could not load running models from the server.');
+    } finally {
+      setIsLoadingList(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  // Run an action for one model, showing it as busy until the list is refreshed
+  const runAction = async (name: string, action: () => Promise<void>, failure: string) => {
+    setBusyModels(prev => new Set(prev).add(name));
+    try {
+      await action();
+      await refresh();
+    } catch (error) {
+      setError(`${failure}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setBusyModels(prev => {
+        const next = new Set(prev);
+        next.delete(name);
+        return next;
+      });
+    }
+  };
+
+  const preload = (name: string) =>
+    runAction(name, () => ollamaService.loadModel(name, keepAlive), `Could not load ${name}`);
+
+  const unload = (name: string) =>
+    runAction(name, () => ollamaService.unloadModel(name), `Could not unload ${name}`);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal model-manager" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="Running models">
+        <div className="modal-header">
+          <h2 className="modal-title">Running models</h2>
+          <button onClick={onClose} className="modal-close" aria-label="Close">×</button>
+        </div>
+
+        <div className="modal-body">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (preloadName) preload(preloadName);
+            }}
+            className="pull-form"
+          >
+            <select
+              value={preloadName}
+              onChange={(e) => setPreloadName(e.target.value)}
+              className="panel-input"
+              aria-label="Model to preload"
+            >
+              {models.map(model => (
+                <option key={model} value={model}>{model}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={!preloadName || busyModels.has(preloadName)}
+              className="panel-button primary"
+            >
+              {busyModels.has(preloadName) ? 'Loading...' : 'Preload'}
+            </button>
+          </form>
+          <p className="settings-hint">
+            Preloading saves the wait on the first message. Models stay loaded for the active
+            chat's keep-alive time{keepAlive ? ` (${keepAlive})` : ''}.
+          </p>
+
+          {error && <p className="settings-error">{error}</p>}
+
+          {isLoadingList ? (
+            <p className="empty-chat-text">Loading running models...</p>
+          ) : running.length === 0 ? (
+            <p className="empty-chat-text">No models are loaded.</p>
+          ) : (
+            <table className="model-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Memory</th>
+                  <th>Unloads</th>
+                  <th aria-label="Actions" />
+                </tr>
+              </thead>
+              <tbody>
+                {running.map(model => (
+                  <tr key={model.name}>
+                    <td>
+                      <span className="model-name">{model.name}</span>
+                      {model.details && (
+                        <span className="settings-hint">
+                          {[model.details.parameter_size, model.details.quantization_level].filter(Boolean).join(' · ')}
+                        </span>
+                      )}
+                    </td>
+                    <td>{describeMemory(model)}</td>
+                    <td title={new Date(model.expires_at).toLocaleString()}>{describeExpiry(model.expires_at)}</td>
+                    <td className="model-actions">
+                      <button
+                        onClick={() => preload(model.name)}
+                        disabled={busyModels.has(model.name)}
+                        className="panel-button"
+                        title="Load again to restart the keep-alive time"
+                      >
+                        Keep loaded
+                      </button>
+                      <button
+                        onClick={() => unload(model.name)}
+                        disabled={busyModels.has(model.name)}
+                        className="panel-button danger"
+                      >
+                        Unload
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { SCHEMA_FIELD_TYPES, buildSchema } from '../utils/jsonSchema';
+import type { SchemaField, SchemaFieldType } from '../utils/jsonSchema';
+
+interface SchemaEditorProps {
+  text: string;
+  error?: string;
+  onChange: (text: string) => void;
+}
+
+const emptyField = (): SchemaField => ({ name: '', type: 'string', required: true });
+
+// JSON Schema text area, with a simple field list that writes a schema for
+// the common case of a flat object
+export function SchemaEditor({ text, error, onChange }: SchemaEditorProps) {
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [fields, setFields] = useState<SchemaField[]>(() => [emptyField()]);
+
+  const updateField = (index: number, patch: Partial<SchemaField>) => {
+    setFields(prev => prev.map((field, fieldIndex) => fieldIndex === index ? { ...field, ...patch } : field));
+  };
+
+  const applyFields = () => {
+    onChange(JSON.stringify(buildSchema(fields), null, 2));
+    setIsBuilding(false);
+  };
+
+  return (
+    <div className="schema-editor">
+      <textarea
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={'{\n  "type": "object",\n  "properties": { "name": { "type": "string" } },\n  "required": ["name"]\n}'}
+        className={`system-prompt-textarea schema-textarea ${error ? 'invalid' : ''}`}
+        rows={8}
+        spellCheck={false}
+        aria-label="JSON Schema"
+      />
+      {error && <span className="settings-error">{error}</span>}
+
+      {isBuilding ? (
+        <div className="schema-builder">
+          {fields.map((field, index) => (
+            <div key={index} className="schema-builder-row">
+              <input
+                value={field.name}
+                onChange={(e) => updateField(index, { name: e.target.value })}
+                placeholder="Field name"
+                className="panel-input"
+                aria-label="Field name"
+              />
+              <select
+                value={field.type}
+                onChange={(e) => updateField(index, { type: e.target.value as SchemaFieldType })}
+                className="panel-input"
+                aria-label="Field type"
+              >
+                {SCHEMA_FIELD_TYPES.map(type => (
+                  <option key={type} value={type}>{type === 'array' ? 'list of strings' : type}</option>
+                ))}
+              </select>
+              <label className="schema-builder-required">
+                <input
+                  type="checkbox"
+                  checked={field.required}
+                  onChange={(e) => updateField(index, { required: e.target.checked })}
+                />
+                Required
+              </label>
+              <button
+                type="button"
+                onClick={() => setFields(prev => prev.filter((_field, fieldIndex) => fieldIndex !== index))}
+                disabled={fields.length <= 1}
+                className="tab-close"
+                aria-label="Remove field"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <div className="persona-form-actions">
+            <button type="button" onClick={() => setFields(prev => [...prev, emptyField()])} className="panel-button">
+              + Field
+            </button>
+            <button
+              type="button"
+              onClick={applyFields}
+              disabled={!fields.some(field => field.name.trim())}
+              className="panel-button primary"
+            >
+              Use these fields
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button type="button" onClick={() => setIsBuilding(true)} className="panel-button">
+          Build from fields...
+        </button>
+      )}
+    </div>
+  );
+}
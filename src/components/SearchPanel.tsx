@@ -0,0 +1,94 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Tab } from '../types/chat';
+import type { SearchIndex, SearchResult } from '../utils/searchIndex';
+
+interface SearchPanelProps {
+  index: SearchIndex;
+  tabs: Tab[];
+  onSelect: (result: SearchResult) => void;
+  onClose: () => void;
+}
+
+// Command-palette style search across the messages of every tab
+export function SearchPanel({ index, tabs, onSelect, onClose }: SearchPanelProps) {
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  // Only tabs that changed since the last search are re-indexed
+  const results = useMemo(() => {
+    index.update(tabs);
+    return index.search(query);
+  }, [index, tabs, query]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  // Keep the highlighted result in view while moving with the arrow keys
+  useEffect(() => {
+    document.getElementById(`search-result-${selectedIndex}`)?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex(current => Math.min(current + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex(current => Math.max(current - 1, 0));
+    } else if (e.key === 'Enter' && results[selectedIndex]) {
+      e.preventDefault();
+      onSelect(results[selectedIndex]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="modal-overlay search-overlay" onClick={onClose}>
+      <div className="modal search-panel" onClick={(e) => e.stopPropagation()} role="dialog" aria-label="Search chats">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search all chats..."
+          className="panel-input search-input"
+          aria-controls="search-results"
+          autoFocus
+        />
+
+        {query.trim() && (
+          results.length === 0 ? (
+            <p className="empty-chat-text">No messages match "{query.trim()}"</p>
+          ) : (
+            <ul id="search-results" className="search-results" role="listbox">
+              {results.map((result, resultIndex) => (
+                <li
+                  key={`${result.tabId}/${result.nodeId}`}
+                  id={`search-result-${resultIndex}`}
+                  role="option"
+                  aria-selected={resultIndex === selectedIndex}
+                  className={`search-result ${resultIndex === selectedIndex ? 'selected' : ''}`}
+                  onMouseEnter={() => setSelectedIndex(resultIndex)}
+                  onClick={() => onSelect(result)}
+                >
+                  <div className="search-result-meta">
+                    <span className="search-result-tab">{result.tabName}</span>
+                    <span>{result.role === 'user' ? 'User' : 'AI'}</span>
+                  </div>
+                  <p className="search-result-snippet">
+                    {result.snippet.map((part, partIndex) =>
+                      part.match ? <mark key={partIndex}>{part.text}</mark> : part.text
+                    )}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+
+        <p className="settings-hint">↑↓ to move · Enter to open · Esc to close</p>
+      </div>
+    </div>
+  );
+}
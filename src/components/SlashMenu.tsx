@@ -0,0 +1,49 @@
+import type { SlashSuggestion } from '../utils/slashCommands';
+import { toCommandName } from '../utils/promptTemplates';
+
+interface SlashMenuProps {
+  suggestions: SlashSuggestion[];
+  selectedIndex: number;
+  onChoose: (suggestion: SlashSuggestion) => void;
+  onHover: (index: number) => void;
+}
+
+const describe = (suggestion: SlashSuggestion): { label: string; detail: string } => {
+  switch (suggestion.kind) {
+    case 'command':
+      return { label: suggestion.command.usage, detail: suggestion.command.description };
+    case 'prompt':
+      return { label: `/${toCommandName(suggestion.prompt.name)}`, detail: suggestion.prompt.name };
+    case 'argument':
+      return { label: suggestion.value, detail: '' };
+  }
+};
+
+// Autocomplete list shown above the chat input while a slash command is typed.
+// The textarea keeps focus and drives the selection with the arrow keys.
+export function SlashMenu({ suggestions, selectedIndex, onChoose, onHover }: SlashMenuProps) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <ul className="slash-menu" role="listbox" aria-label="Commands and prompts">
+      {suggestions.map((suggestion, index) => {
+        const { label, detail } = describe(suggestion);
+        return (
+          <li
+            key={`${suggestion.kind}-${label}`}
+            role="option"
+            aria-selected={index === selectedIndex}
+            className={`slash-menu-item ${index === selectedIndex ? 'selected' : ''}`}
+            // Keep focus in the textarea
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onChoose(suggestion)}
+            onMouseEnter={() => onHover(index)}
+          >
+            <span className="slash-menu-label">{label}</span>
+            {detail && <span className="slash-menu-detail">{detail}</span>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
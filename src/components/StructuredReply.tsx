@@ -0,0 +1,62 @@
+import { CopyButton } from './CopyButton';
+import { JsonTree } from './JsonTree';
+import { downloadFile } from '../utils/download';
+import { validateJson } from '../utils/jsonSchema';
+import type { OutputFormat, SchemaError } from '../utils/jsonSchema';
+
+interface StructuredReplyProps {
+  content: string;
+  format: OutputFormat;
+  fileName: string; // Name for the downloaded .json file
+}
+
+// Parse a structured-output reply and check it against the requested schema
+const checkReply = (content: string, format: OutputFormat) => {
+  try {
+    const value: unknown = JSON.parse(content);
+    const errors: SchemaError[] = format === 'json' ? [] : validateJson(value, format);
+    return { value, errors };
+  } catch (error) {
+    return { parseError: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// A JSON reply shown as a tree, with its validation result and export actions
+export function StructuredReply({ content, format, fileName }: StructuredReplyProps) {
+  const result = checkReply(content, format);
+
+  if ('parseError' in result) {
+    return (
+      <div className="structured-reply">
+        <p className="structured-status invalid">The reply is not valid JSON: {result.parseError}</p>
+        <pre className="structured-raw">{content}</pre>
+      </div>
+    );
+  }
+
+  const formatted = JSON.stringify(result.value, null, 2);
+  return (
+    <div className="structured-reply">
+      <div className="structured-header">
+        <p className={`structured-status ${result.errors.length > 0 ? 'invalid' : 'valid'}`}>
+          {format === 'json'
+            ? 'Valid JSON'
+            : result.errors.length === 0
+              ? '✓ Matches the schema'
+              : `${result.errors.length} problem${result.errors.length === 1 ? '' : 's'} with the schema`}
+        </p>
+        <CopyButton text={formatted} label="Copy JSON" className="panel-button" />
+        <button
+          type="button"
+          onClick={() => downloadFile(fileName, formatted, 'application/json')}
+          className="panel-button"
+        >
+          Download .json
+        </button>
+      </div>
+      <div className="json-tree">
+        <JsonTree value={result.value} errors={result.errors} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import type { MergeConflict } from '../utils/tabMerge';
+
+interface SyncConflictNoticeProps {
+  conflicts: MergeConflict[];
+  remoteWins: boolean; // Whether the other window's version was kept
+  onRestore: () => void;
+  onDismiss: () => void;
+}
+
+// Shown after this chat was edited in another window at the same time and
+// both windows changed the same things
+export function SyncConflictNotice({ conflicts, remoteWins, onRestore, onDismiss }: SyncConflictNoticeProps) {
+  const labels = conflicts.map(conflict => conflict.label).join(', ');
+
+  return (
+    <div className="storage-warning sync-conflict" role="alert">
+      <span>
+        This chat was also changed in another window. Both versions were merged, but they disagreed on
+        the {labels}: {remoteWins ? 'the other window\'s version is shown' : 'your version was kept'}.
+      </span>
+      <div className="sync-conflict-actions">
+        {remoteWins && (
+          <button onClick={onRestore} className="panel-button">Restore mine</button>
+        )}
+        <button onClick={onDismiss} className="storage-warning-dismiss" aria-label="Dismiss">×</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import type { Persona } from '../types/chat';
+
+interface SystemPromptPanelProps {
+  systemPrompt: string;
+  personas: Persona[];
+  onChange: (systemPrompt: string) => void;
+  onSaveAsPersona: () => void;
+  onManagePersonas: () => void;
+}
+
+// Collapsible editor for the active tab's system prompt
+export function SystemPromptPanel({
+  systemPrompt,
+  personas,
+  onChange,
+  onSaveAsPersona,
+  onManagePersonas
+}: SystemPromptPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const applyPersona = (personaId: string) => {
+    const persona = personas.find(p => p.id === personaId);
+    if (persona) {
+      onChange(persona.systemPrompt);
+    }
+  };
+
+  return (
+    <div className="system-prompt-panel">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="system-prompt-toggle"
+        aria-expanded={isExpanded}
+      >
+        <span className="system-prompt-label">System prompt</span>
+        <span className="system-prompt-summary">
+          {systemPrompt.trim() ? systemPrompt : 'None'}
+        </span>
+        <span aria-hidden="true">{isExpanded ? '▲' : '▼'}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="system-prompt-editor">
+          <textarea
+            value={systemPrompt}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="Instructions the model should follow for this conversation..."
+            className="system-prompt-textarea"
+            rows={4}
+          />
+          <div className="system-prompt-actions">
+            <select
+              value=""
+              onChange={(e) => applyPersona(e.target.value)}
+              className="persona-select"
+              aria-label="Apply persona"
+            >
+              <option value="">Apply persona...</option>
+              {personas.map(persona => (
+                <option key={persona.id} value={persona.id}>{persona.name}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={onSaveAsPersona}
+              disabled={!systemPrompt.trim()}
+              className="panel-button"
+            >
+              Save as persona
+            </button>
+            <button
+              type="button"
+              onClick={onManagePersonas}
+              className="panel-button"
+            >
+              Manage personas
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
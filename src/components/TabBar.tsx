@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Tab } from '../types/chat';
+
+interface TabBarProps {
+  tabs: Tab[];
+  activeTabId: string;
+  onSelect: (tabId: string) => void;
+  onClose: (tabId: string) => void;
+  onRename: (tabId: string, name: string) => void;
+  onTogglePin: (tabId: string) => void;
+  onMove: (tabId: string, targetTabId: string) => void;
+}
+
+// Scrolling row of chat tabs with inline rename, pinning, drag-to-reorder,
+// and a list of every tab once they no longer fit
+export function TabBar({ tabs, activeTabId, onSelect, onClose, onRename, onTogglePin, onMove }: TabBarProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [isOverflowing, setIsOverflowing] = useState(false);
+  const [overflowMenu, setOverflowMenu] = useState<{ top: number; right: number } | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Show the overflow list only while some tabs are scrolled out of view
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+
+    const checkOverflow = () => setIsOverflowing(list.scrollWidth > list.clientWidth);
+    checkOverflow();
+    const observer = new ResizeObserver(checkOverflow);
+    observer.observe(list);
+    return () => observer.disconnect();
+  }, [tabs.length]);
+
+  // Keep the active tab visible when it's picked from the overflow list or search
+  useEffect(() => {
+    listRef.current
+      ?.querySelector<HTMLElement>(`[data-tab-id="${CSS.escape(activeTabId)}"]`)
+      ?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [activeTabId]);
+
+  const startRenaming = (tab: Tab) => {
+    setRenamingId(tab.id);
+    setDraftName(tab.name);
+  };
+
+  const finishRenaming = () => {
+    if (renamingId && draftName.trim()) {
+      onRename(renamingId, draftName.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const endDrag = () => {
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  const toggleOverflowMenu = (e: React.MouseEvent<HTMLButtonElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setOverflowMenu(current => current ? null : { top: rect.bottom, right: window.innerWidth - rect.right });
+  };
+
+  return (
+    <div className="tab-bar">
+      <div className="tabs-list" ref={listRef}>
+        {tabs.map(tab => (
+          <div
+            key={tab.id}
+            data-tab-id={tab.id}
+            className={`tab ${tab.pinned ? 'pinned' : ''} ${dropTargetId === tab.id ? 'drop-target' : ''}`}
+            draggable={renamingId !== tab.id}
+            onDragStart={(e) => {
+              e.dataTransfer.setData('text/plain', tab.id);
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggedId(tab.id);
+            }}
+            onDragOver={(e) => {
+              if (!draggedId || draggedId === tab.id) return;
+              e.preventDefault();
+              setDropTargetId(tab.id);
+            }}
+            onDragLeave={() => setDropTargetId(current => current === tab.id ? null : current)}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (draggedId && draggedId !== tab.id) {
+                onMove(draggedId, tab.id);
+              }
+              endDrag();
+            }}
+            onDragEnd={endDrag}
+          >
+            {renamingId === tab.id ? (
+              <input
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={finishRenaming}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') finishRenaming();
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+                className="tab-rename-input"
+                aria-label="Chat name"
+                autoFocus
+              />
+            ) : (
+              <button
+                onClick={() => onSelect(tab.id)}
+                onDoubleClick={() => startRenaming(tab)}
+                className={`tab-button ${activeTabId === tab.id ? 'active' : ''}`}
+                title={`${tab.name} (double-click to rename, drag to move)`}
+              >
+                {tab.name}
+              </button>
+            )}
+            <button
+              onClick={() => onTogglePin(tab.id)}
+              className={`tab-pin ${tab.pinned ? 'active' : ''}`}
+              aria-label={tab.pinned ? 'Unpin tab' : 'Pin tab'}
+              title={tab.pinned ? 'Unpin' : 'Pin to the front'}
+            >
+              📌
+            </button>
+            {tabs.length > 1 && !tab.pinned && (
+              <button
+                onClick={() => onClose(tab.id)}
+                className="tab-close"
+                aria-label="Close tab"
+              >
+                ×
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {isOverflowing && (
+        <div className="menu-container">
+          <button
+            onClick={toggleOverflowMenu}
+            className="tab-overflow-button"
+            aria-label="All chats"
+            aria-expanded={!!overflowMenu}
+            title={`All chats (${tabs.length})`}
+          >
+            ⌄ {tabs.length}
+          </button>
+          {overflowMenu && (
+            <div className="menu tab-overflow-menu" role="menu" style={overflowMenu}>
+              {tabs.map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => {
+                    onSelect(tab.id);
+                    setOverflowMenu(null);
+                  }}
+                  className={`menu-item ${tab.id === activeTabId ? 'active' : ''}`}
+                  role="menuitem"
+                >
+                  {tab.pinned && '📌 '}{tab.name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { formatDuration } from '../utils/format';
+
+interface ThinkingBlockProps {
+  thinking: string;
+  duration?: number; // Milliseconds; unset while the model is still reasoning
+  isThinking: boolean;
+}
+
+// The reasoning a model wrote before its answer, collapsed under a summary line
+export function ThinkingBlock({ thinking, duration, isThinking }: ThinkingBlockProps) {
+  const summary = isThinking
+    ? 'Thinking…'
+    : duration !== undefined ? `Thought for ${formatDuration(duration * 1e6)}` : 'Thoughts';
+
+  return (
+    <details className="thinking-block">
+      <summary>
+        <span aria-hidden="true">💭</span>
+        <span className={isThinking ? 'thinking-active' : ''}>{summary}</span>
+      </summary>
+      <div className="thinking-content">{thinking}</div>
+    </details>
+  );
+}
@@ -0,0 +1,34 @@
+import type { ToolStep } from '../services/toolRegistry';
+
+interface ToolStepsProps {
+  steps: ToolStep[];
+}
+
+// Short form of a call for the collapsed view, e.g. calculator(expression: "2^10")
+const describeCall = ({ name, arguments: args }: ToolStep) => {
+  const parts = Object.entries(args).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `${name}(${parts.join(', ')})`;
+};
+
+// Tool calls made while writing a reply, each expandable to its full result
+export function ToolSteps({ steps }: ToolStepsProps) {
+  return (
+    <div className="tool-steps">
+      {steps.map((step, index) => (
+        <details key={index} className={`tool-step ${step.isError ? 'failed' : ''}`}>
+          <summary>
+            <span aria-hidden="true">🛠️</span>
+            <code className="tool-step-call">{describeCall(step)}</code>
+            {step.isError && <span className="tool-step-status">failed</span>}
+          </summary>
+          <div className="tool-step-body">
+            <p className="tool-step-label">Arguments</p>
+            <pre>{JSON.stringify(step.arguments, null, 2)}</pre>
+            <p className="tool-step-label">{step.isError ? 'Error' : 'Result'}</p>
+            <pre>{step.result}</pre>
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+import type { Tab } from '../types/chat';
+import type { DocumentChunk } from './documentIndex';
+import { migrateTab } from '../utils/messageTree';
+import { DEFAULT_PROVIDER_ID, isProviderId } from './providers';
+import type { ProviderId } from './providers';
+
+// IndexedDB layout: one record per tab, one per attached document holding
+// its chunks and embeddings, plus a key/value store for settings
+const DB_NAME = 'vibed';
+const DB_VERSION = 2;
+const TABS_STORE = 'tabs';
+const CHUNKS_STORE = 'documentChunks';
+const META_STORE = 'meta';
+
+// localStorage keys used before chats moved to IndexedDB
+const LEGACY_KEY_TABS = 'vibed_tabs';
+const LEGACY_KEY_ACTIVE_TAB = 'vibed_active_tab';
+const LEGACY_KEY_SELECTED_MODEL = 'vibed_selected_model';
+
+// How long to wait for more changes before writing a tab. Streaming
+// replies change the tab on every token, so this batches them into one write.
+const SAVE_DELAY_MS = 750;
+
+type MetaKey = 'migrated' | 'tabOrder' | 'activeTabId' | 'selectedModel' | 'selectedProvider';
+
+export interface StoredChatState {
+  tabs: Tab[];
+  activeTabId: string;
+  selectedModel: string;
+  selectedProvider: ProviderId;
+}
+
+// Chunks are kept out of the tab record so that saving a tab, which happens
+// on every streamed reply, doesn't rewrite every embedding with it
+interface StoredDocumentChunks {
+  tabId: string;
+  documentId: string;
+  chunks: DocumentChunk[];
+}
+
+type StorageErrorListener = (error: unknown, isQuotaError: boolean) => void;
+// Called after a tab is written, with the revision it replaced
+type TabSavedListener = (tab: Tab, baseRevision: number) => void;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+let loadPromise: Promise<StoredChatState> | null = null;
+const pendingSaves = new Map<string, { tab: Tab; timer: ReturnType<typeof setTimeout> }>();
+const errorListeners = new Set<StorageErrorListener>();
+const savedListeners = new Set<TabSavedListener>();
+// Latest revision of each tab written by this window or seen from another one
+const revisions = new Map<string, number>();
+
+// Wrap an IDBRequest in a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Every document record of a tab
+const tabChunksRange = (tabId: string) => IDBKeyRange.bound([tabId], [tabId, []]);
+
+// Version 1 kept the chunks of a tab's documents in the tab record; move
+// them to one record per document
+const moveChunksOutOfTabs = (transaction: IDBTransaction) => {
+  const chunksStore = transaction.objectStore(CHUNKS_STORE);
+  const cursorRequest = transaction.objectStore(TABS_STORE).openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+
+    const tab = cursor.value as Tab & { knowledge?: { chunks?: DocumentChunk[] } };
+    const chunks = tab.knowledge?.chunks;
+    if (tab.knowledge && chunks) {
+      tab.knowledge.documents.forEach(document => {
+        const record: StoredDocumentChunks = {
+          tabId: tab.id,
+          documentId: document.id,
+          chunks: chunks.filter(chunk => chunk.documentId === document.id)
+        };
+        chunksStore.put(record);
+      });
+      const { embeddingModel, documents } = tab.knowledge;
+      cursor.update({ ...tab, knowledge: { embeddingModel, documents } });
+    }
+    cursor.continue();
+  };
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TABS_STORE)) {
+          db.createObjectStore(TABS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+          db.createObjectStore(CHUNKS_STORE, { keyPath: ['tabId', 'documentId'] });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+        if (event.oldVersion === 1 && request.transaction) {
+          moveChunksOutOfTabs(request.transaction);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version in another window upgrade the database
+        db.onversionchange = () => {
+          db.close();
+          databasePromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again if opening failed
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+// Run a read-write transaction and resolve once it has been committed
+const writeTransaction = async (
+  storeNames: string[],
+  operation: (transaction: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, 'readwrite');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    operation(transaction);
+  });
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const reportError = (context: string, error: unknown) => {
+  console.error(`Chat storage error (${context}):`, error);
+  errorListeners.forEach(listener => listener(error, isQuotaError(error)));
+};
+
+const readLegacyValue = <T>(key: string, defaultValue: T): T => {
+  try {
+    const savedValue = localStorage.getItem(key);
+    if (savedValue) {
+      return JSON.parse(savedValue) as T;
+    }
+  } catch (error) {
+    console.error(`Failed to read legacy localStorage value (${key}):`, error);
+  }
+  return defaultValue;
+};
+
+// Copy chats saved by older versions out of localStorage, once
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  const migrated = await promisify(db.transaction(META_STORE).objectStore(META_STORE).get('migrated'));
+  if (migrated) return;
+
+  const legacyTabs = readLegacyValue<Tab[]>(LEGACY_KEY_TABS, []).map(migrateTab);
+  const activeTabId = readLegacyValue(LEGACY_KEY_ACTIVE_TAB, '');
+  const selectedModel = readLegacyValue(LEGACY_KEY_SELECTED_MODEL, '');
+
+  await writeTransaction([TABS_STORE, META_STORE], transaction => {
+    const tabsStore = transaction.objectStore(TABS_STORE);
+    const metaStore = transaction.objectStore(META_STORE);
+    legacyTabs.forEach(tab => tabsStore.put(tab));
+    metaStore.put(legacyTabs.map(tab => tab.id), 'tabOrder');
+    if (activeTabId) metaStore.put(activeTabId, 'activeTabId');
+    if (selectedModel) metaStore.put(selectedModel, 'selectedModel');
+    metaStore.put(true, 'migrated');
+  });
+
+  console.log(`Migrated ${legacyTabs.length} tabs from localStorage to IndexedDB`);
+  [LEGACY_KEY_TABS, LEGACY_KEY_ACTIVE_TAB, LEGACY_KEY_SELECTED_MODEL].forEach(key => localStorage.removeItem(key));
+};
+
+const readState = async (): Promise<StoredChatState> => {
+  const db = await openDatabase();
+  await migrateFromLocalStorage(db);
+
+  const transaction = db.transaction([TABS_STORE, META_STORE]);
+  const metaStore = transaction.objectStore(META_STORE);
+  const [tabs, tabOrder, activeTabId, selectedModel, selectedProvider] = await Promise.all([
+    promisify(transaction.objectStore(TABS_STORE).getAll() as IDBRequest<Tab[]>),
+    promisify(metaStore.get('tabOrder') as IDBRequest<string[] | undefined>),
+    promisify(metaStore.get('activeTabId') as IDBRequest<string | undefined>),
+    promisify(metaStore.get('selectedModel') as IDBRequest<string | undefined>),
+    promisify(metaStore.get('selectedProvider') as IDBRequest<unknown>)
+  ]);
+
+  // Records come back in key order; restore the order of the tab bar
+  const position = new Map((tabOrder ?? []).map((id, index) => [id, index]));
+  const orderedTabs = [...tabs].sort((a, b) =>
+    (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity) ||
+    (a.createdAt ?? 0) - (b.createdAt ?? 0)
+  );
+
+  orderedTabs.forEach(tab => revisions.set(tab.id, tab.revision ?? 0));
+
+  return {
+    tabs: orderedTabs,
+    activeTabId: activeTabId ?? '',
+    selectedModel: selectedModel ?? '',
+    selectedProvider: isProviderId(selectedProvider) ? selectedProvider : DEFAULT_PROVIDER_ID
+  };
+};
+
+// Write a tab as the next revision after the latest one known
+const writeTab = async (tab: Tab): Promise<boolean> => {
+  const baseRevision = revisions.get(tab.id) ?? 0;
+  const saved = { ...tab, revision: baseRevision + 1 };
+  revisions.set(tab.id, saved.revision);
+  try {
+    await writeTransaction([TABS_STORE], transaction => {
+      transaction.objectStore(TABS_STORE).put(saved);
+    });
+    savedListeners.forEach(listener => listener(saved, baseRevision));
+    return true;
+  } catch (error) {
+    reportError(`saving tab ${tab.id}`, error);
+    return false;
+  }
+};
+
+export const chatStorage = {
+  // Load saved chats, migrating localStorage data on first run
+  load(): Promise<StoredChatState> {
+    if (!loadPromise) {
+      loadPromise = readState();
+      loadPromise.catch(() => {
+        loadPromise = null;
+      });
+    }
+    return loadPromise;
+  },
+
+  // Save a tab after a delay (SAVE_DELAY_MS by default), replacing any save
+  // already queued for it
+  scheduleTabSave(tab: Tab, delayMs = SAVE_DELAY_MS) {
+    const pending = pendingSaves.get(tab.id);
+    if (pending) {
+      clearTimeout(pending.timer);
+    }
+
+    const timer = setTimeout(() => {
+      pendingSaves.delete(tab.id);
+      writeTab(tab);
+    }, delayMs);
+    pendingSaves.set(tab.id, { tab, timer });
+  },
+
+  // Write every queued tab right away
+  async flush(): Promise<void> {
+    const pending = [...pendingSaves.values()];
+    pendingSaves.clear();
+    pending.forEach(({ timer }) => clearTimeout(timer));
+    await Promise.all(pending.map(({ tab }) => writeTab(tab)));
+  },
+
+  // Whether a tab has changes waiting to be written
+  hasPendingSave(tabId: string): boolean {
+    return pendingSaves.has(tabId);
+  },
+
+  revisionOf(tabId: string): number {
+    return revisions.get(tabId) ?? 0;
+  },
+
+  // Record a revision another window wrote, so this window's next save of the tab comes after it
+  acceptRevision(tabId: string, revision: number) {
+    revisions.set(tabId, Math.max(revisions.get(tabId) ?? 0, revision));
+  },
+
+  async deleteTab(tabId: string): Promise<boolean> {
+    const pending = pendingSaves.get(tabId);
+    if (pending) {
+      clearTimeout(pending.timer);
+      pendingSaves.delete(tabId);
+    }
+    revisions.delete(tabId);
+
+    try {
+      await writeTransaction([TABS_STORE, CHUNKS_STORE], transaction => {
+        transaction.objectStore(TABS_STORE).delete(tabId);
+        transaction.objectStore(CHUNKS_STORE).delete(tabChunksRange(tabId));
+      });
+      return true;
+    } catch (error) {
+      reportError(`deleting tab ${tabId}`, error);
+      return false;
+    }
+  },
+
+  // The chunks of every document attached to a tab
+  async loadDocumentChunks(tabId: string): Promise<DocumentChunk[]> {
+    const db = await openDatabase();
+    const store = db.transaction(CHUNKS_STORE).objectStore(CHUNKS_STORE);
+    const records = await promisify(store.getAll(tabChunksRange(tabId)) as IDBRequest<StoredDocumentChunks[]>);
+    return records.flatMap(record => record.chunks);
+  },
+
+  async saveDocumentChunks(tabId: string, documentId: string, chunks: DocumentChunk[]): Promise<boolean> {
+    const record: StoredDocumentChunks = { tabId, documentId, chunks };
+    try {
+      await writeTransaction([CHUNKS_STORE], transaction => {
+        transaction.objectStore(CHUNKS_STORE).put(record);
+      });
+      return true;
+    } catch (error) {
+      reportError(`saving document ${documentId}`, error);
+      return false;
+    }
+  },
+
+  async deleteDocumentChunks(tabId: string, documentId: string): Promise<boolean> {
+    try {
+      await writeTransaction([CHUNKS_STORE], transaction => {
+        transaction.objectStore(CHUNKS_STORE).delete([tabId, documentId]);
+      });
+      return true;
+    } catch (error) {
+      reportError(`deleting document ${documentId}`, error);
+      return false;
+    }
+  },
+
+  async saveSetting(key: Exclude<MetaKey, 'migrated'>, value: string | string[]): Promise<boolean> {
+    try {
+      await writeTransaction([META_STORE], transaction => {
+        transaction.objectStore(META_STORE).put(value, key);
+      });
+      return true;
+    } catch (error) {
+      reportError(`saving ${key}`, error);
+      return false;
+    }
+  },
+
+  // Subscribe to successful tab writes; returns an unsubscribe function
+  onTabSaved(listener: TabSavedListener): () => void {
+    savedListeners.add(listener);
+    return () => {
+      savedListeners.delete(listener);
+    };
+  },
+
+  // Subscribe to write failures; returns an unsubscribe function
+  onError(listener: StorageErrorListener): () => void {
+    errorListeners.add(listener);
+    return () => {
+      errorListeners.delete(listener);
+    };
+  }
+};
@@ -0,0 +1,131 @@
+import axios from 'axios';
+
+// A named server the app can talk to
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  baseUrl: string; // e.g. http://localhost:11434, without a trailing slash
+  apiKey?: string; // Sent as a bearer token when set
+}
+
+export type ConnectionStatus = 'checking' | 'connected' | 'error';
+
+const STORAGE_KEY_CONNECTIONS = 'vibed_connections';
+const STORAGE_KEY_ACTIVE_CONNECTION = 'vibed_active_connection';
+
+const DEFAULT_CONNECTION_ID = 'connection-default';
+
+// The server the app was built for: VITE_OLLAMA_API_URL in development,
+// and the proxy in server.js (the current origin) in production
+const getDefaultBaseUrl = () =>
+  import.meta.env.DEV ? import.meta.env.VITE_OLLAMA_API_URL ?? '' : window.location.origin;
+
+const getDefaultProfile = (): ConnectionProfile => ({
+  id: DEFAULT_CONNECTION_ID,
+  name: 'Default',
+  baseUrl: normalizeBaseUrl(getDefaultBaseUrl())
+});
+
+const readStoredValue = <T>(key: string, defaultValue: T): T => {
+  try {
+    const savedValue = localStorage.getItem(key);
+    if (savedValue) {
+      return JSON.parse(savedValue) as T;
+    }
+  } catch (error) {
+    console.error(`Failed to load from localStorage (${key}):`, error);
+  }
+  return defaultValue;
+};
+
+const writeStoredValue = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to save to localStorage (${key}):`, error);
+  }
+};
+
+// Strip whitespace and trailing slashes so paths can be appended directly
+export const normalizeBaseUrl = (url: string): string => url.trim().replace(/\/+$/, '');
+
+// Return an error message for an unusable base URL, or an empty string
+export const validateBaseUrl = (url: string): string => {
+  try {
+    const parsed = new URL(normalizeBaseUrl(url));
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:'
+      ? ''
+      : 'The URL must start with http:// or https://';
+  } catch {
+    return 'Enter a full URL, e.g. http://localhost:11434';
+  }
+};
+
+let profiles = readStoredValue<ConnectionProfile[]>(STORAGE_KEY_CONNECTIONS, []);
+if (profiles.length === 0) {
+  profiles = [getDefaultProfile()];
+}
+let activeProfileId = readStoredValue(STORAGE_KEY_ACTIVE_CONNECTION, profiles[0].id);
+
+const findActiveProfile = () => profiles.find(profile => profile.id === activeProfileId) ?? profiles[0];
+
+// Headers that authenticate a request against a profile
+const authHeaders = (profile: ConnectionProfile): Record<string, string> =>
+  profile.apiKey ? { Authorization: `Bearer ${profile.apiKey}` } : {};
+
+// Every service resolves its server through here, so switching profiles
+// takes effect on the next request
+export const connectionService = {
+  getProfiles(): ConnectionProfile[] {
+    return profiles;
+  },
+
+  getActiveProfile(): ConnectionProfile {
+    return findActiveProfile();
+  },
+
+  // Replace the saved profiles; at least one profile is always kept
+  saveProfiles(nextProfiles: ConnectionProfile[]) {
+    profiles = nextProfiles.length > 0 ? nextProfiles : [getDefaultProfile()];
+    writeStoredValue(STORAGE_KEY_CONNECTIONS, profiles);
+    if (!profiles.some(profile => profile.id === activeProfileId)) {
+      this.setActiveProfile(profiles[0].id);
+    }
+  },
+
+  setActiveProfile(profileId: string) {
+    activeProfileId = profileId;
+    writeStoredValue(STORAGE_KEY_ACTIVE_CONNECTION, profileId);
+  },
+
+  // Base URL of the active profile
+  baseUrl(): string {
+    return findActiveProfile().baseUrl;
+  },
+
+  // Headers to add to every request to the active profile
+  headers(): Record<string, string> {
+    return authHeaders(findActiveProfile());
+  },
+
+  // Check that a server answers a GET request for path; resolves to the
+  // response data. Each provider picks an endpoint its servers have.
+  async testConnection(profile: ConnectionProfile, path: string): Promise<unknown> {
+    try {
+      const response = await axios.get(`${profile.baseUrl}${path}`, {
+        headers: authHeaders(profile),
+        timeout: 10000
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Connection test failed:', error);
+      if (axios.isAxiosError(error)) {
+        if (error.response) {
+          throw new Error(`The server answered with status ${error.response.status}`);
+        }
+        throw new Error(`Could not reach ${profile.baseUrl}`);
+      }
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,233 @@
+import type { MessageNode, Tab } from '../types/chat';
+import { isAbortError } from './ollamaService';
+import type { ChatMessage } from './ollamaService';
+import type { ChatProvider } from './providers';
+
+// How to fit a long conversation into the model's context window
+export type ContextStrategy =
+  | 'drop-oldest' // Leave out the oldest messages
+  | 'keep-pinned' // Like drop-oldest, but pinned messages are always sent
+  | 'summarize'; // Replace the oldest messages with a model-written summary
+
+export const DEFAULT_CONTEXT_STRATEGY: ContextStrategy = 'drop-oldest';
+
+export const CONTEXT_STRATEGIES: Array<{ value: ContextStrategy; label: string }> = [
+  { value: 'drop-oldest', label: 'Drop the oldest messages' },
+  { value: 'keep-pinned', label: 'Drop the oldest, but keep pinned messages' },
+  { value: 'summarize', label: 'Summarize older messages' }
+];
+
+// Summary of the start of a branch, saved with the tab
+export interface ContextSummary {
+  content: string;
+  upToId: string; // Last message the summary covers
+  createdAt: number;
+}
+
+// What a request will contain, and which messages were left out
+export interface ContextPlan {
+  messages: ChatMessage[];
+  excludedIds: string[]; // Messages that don't fit and are not sent
+  summarizedIds: string[]; // Messages sent as part of the summary
+  estimatedTokens: number;
+}
+
+interface PrepareOptions {
+  provider: ChatProvider;
+  model: string;
+  contextSize?: number; // Unknown for some providers, in which case everything is sent
+  sources?: string; // Excerpts from the tab's documents, sent after the system prompt
+  // The model can reason; summaries then ask it not to, so the short reply
+  // limit isn't spent on thinking
+  canThink?: boolean;
+  signal?: AbortSignal;
+}
+
+// Rough token estimate: about four characters per token, plus a few tokens
+// of chat template overhead per message. Images cost a fixed amount each.
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const IMAGE_TOKENS = 768;
+
+// Tokens kept free for the reply when num_predict isn't set
+const MAX_REPLY_RESERVE = 1024;
+
+// When summarizing, keep the recent messages within this share of the budget
+// so the next few turns fit without summarizing again
+const SUMMARIZE_FILL_RATIO = 0.5;
+
+const SUMMARY_PROMPT =
+  'Summarize the conversation below so it can replace the original messages. ' +
+  'Keep facts, decisions, names, numbers and code identifiers; drop small talk. ' +
+  'Write plain prose of at most 200 words and reply with the summary only.';
+
+export const estimateTokens = (message: ChatMessage): number =>
+  Math.ceil((message.content.length + (message.thinking?.length ?? 0)) / CHARS_PER_TOKEN) +
+  MESSAGE_OVERHEAD_TOKENS +
+  (message.images?.length ?? 0) * IMAGE_TOKENS;
+
+// Earlier reasoning goes along unless the tab leaves it out; the model's
+// template decides what to do with it
+const toChatMessage = ({ role, content, images, thinking }: MessageNode, includeThinking: boolean): ChatMessage => ({
+  role,
+  content,
+  ...(images?.length && { images }),
+  ...(includeThinking && thinking && { thinking })
+});
+
+const replyReserve = (tab: Tab, contextSize: number) => {
+  const numPredict = tab.options?.num_predict;
+  return numPredict !== undefined && numPredict > 0
+    ? numPredict
+    : Math.min(MAX_REPLY_RESERVE, Math.floor(contextSize / 4));
+};
+
+// Replies that failed before writing anything have nothing to send
+const withoutFailedReplies = (history: MessageNode[]) =>
+  history.filter(node => node.content || !node.error);
+
+// Position of the tab's summary on this branch, or -1 when it covers another branch
+const findSummaryIndex = (tab: Tab, history: MessageNode[]) =>
+  tab.contextStrategy === 'summarize' && tab.contextSummary
+    ? history.findIndex(node => node.id === tab.contextSummary?.upToId)
+    : -1;
+
+// Decide which messages to send. The system prompt, any document sources and
+// the message being answered are always included; the rest is filled from the
+// newest backwards.
+const planContext = (
+  tab: Tab,
+  history: MessageNode[],
+  contextSize?: number,
+  fillRatio = 1,
+  sources?: string
+): ContextPlan => {
+  const strategy = tab.contextStrategy ?? DEFAULT_CONTEXT_STRATEGY;
+  const systemPrompt = tab.systemPrompt?.trim();
+  const summaryIndex = findSummaryIndex(tab, history);
+
+  const leading: ChatMessage[] = [];
+  if (systemPrompt) {
+    leading.push({ role: 'system', content: systemPrompt });
+  }
+  if (sources) {
+    leading.push({ role: 'system', content: sources });
+  }
+  if (summaryIndex !== -1 && tab.contextSummary) {
+    leading.push({ role: 'system', content: `Summary of the earlier conversation:\n${tab.contextSummary.content}` });
+  }
+
+  const summarizedIds = history.slice(0, summaryIndex + 1).map(node => node.id);
+  const candidates = history.slice(summaryIndex + 1);
+  const leadingTokens = leading.reduce((total, message) => total + estimateTokens(message), 0);
+  const toMessage = (node: MessageNode) => toChatMessage(node, !tab.excludeThinking);
+  const sizeOf = (node: MessageNode) => estimateTokens(toMessage(node));
+
+  if (!contextSize) {
+    return {
+      messages: [...leading, ...candidates.map(toMessage)],
+      excludedIds: [],
+      summarizedIds,
+      estimatedTokens: candidates.reduce((total, node) => total + sizeOf(node), leadingTokens)
+    };
+  }
+
+  const budget = (contextSize - replyReserve(tab, contextSize) - leadingTokens) * fillRatio;
+  const lastNode = candidates[candidates.length - 1];
+  const included = new Set(candidates
+    .filter(node => node === lastNode || (strategy === 'keep-pinned' && node.pinned))
+    .map(node => node.id));
+  let used = candidates.reduce((total, node) => included.has(node.id) ? total + sizeOf(node) : total, 0);
+
+  // Walk back from the newest message until the budget runs out
+  for (let index = candidates.length - 1; index >= 0; index--) {
+    const node = candidates[index];
+    if (included.has(node.id)) continue;
+    const size = sizeOf(node);
+    if (used + size > budget) break;
+    used += size;
+    included.add(node.id);
+  }
+
+  return {
+    messages: [...leading, ...candidates.filter(node => included.has(node.id)).map(toMessage)],
+    excludedIds: candidates.filter(node => !included.has(node.id)).map(node => node.id),
+    summarizedIds,
+    estimatedTokens: leadingTokens + used
+  };
+};
+
+export const contextManager = {
+  // Work out which messages of a branch fit the context, without any requests
+  plan(tab: Tab, history: MessageNode[], contextSize?: number): ContextPlan {
+    return planContext(tab, withoutFailedReplies(history), contextSize);
+  },
+
+  // Ask the model to fold older messages (and any earlier summary) into a summary
+  async summarize(
+    provider: ChatProvider,
+    model: string,
+    messages: MessageNode[],
+    previousSummary?: string,
+    signal?: AbortSignal,
+    canThink = false
+  ): Promise<string> {
+    const transcript = [
+      previousSummary ? `Earlier summary: ${previousSummary}` : '',
+      ...messages.map(node => `${node.role === 'user' ? 'User' : 'Assistant'}: ${node.content}`)
+    ].filter(Boolean).join('\n\n');
+
+    const summary = await provider.chat(
+      model,
+      [
+        { role: 'system', content: SUMMARY_PROMPT },
+        { role: 'user', content: transcript }
+      ],
+      undefined,
+      { signal, options: { temperature: 0.2, num_predict: 400 }, think: canThink ? false : undefined }
+    );
+    return summary.trim();
+  },
+
+  // Build the messages for a request. With the summarize strategy this may
+  // first write a new summary, which the caller should save on the tab.
+  async prepareRequest(
+    tab: Tab,
+    history: MessageNode[],
+    { provider, model, contextSize, sources, canThink, signal }: PrepareOptions
+  ): Promise<{ messages: ChatMessage[]; summary?: ContextSummary }> {
+    history = withoutFailedReplies(history);
+    const plan = planContext(tab, history, contextSize, 1, sources);
+    if (tab.contextStrategy !== 'summarize' || plan.excludedIds.length === 0) {
+      return { messages: plan.messages };
+    }
+
+    // Summarize enough that the recent messages take up at most part of the budget
+    const { excludedIds } = planContext(tab, history, contextSize, SUMMARIZE_FILL_RATIO, sources);
+    const lastExcludedIndex = history.findIndex(node => node.id === excludedIds[excludedIds.length - 1]);
+    const summaryIndex = findSummaryIndex(tab, history);
+    const toSummarize = history.slice(summaryIndex + 1, lastExcludedIndex + 1);
+
+    try {
+      const content = await this.summarize(
+        provider,
+        model,
+        toSummarize,
+        summaryIndex !== -1 ? tab.contextSummary?.content : undefined,
+        signal,
+        canThink
+      );
+      if (!content) {
+        return { messages: plan.messages };
+      }
+
+      const summary: ContextSummary = { content, upToId: history[lastExcludedIndex].id, createdAt: Date.now() };
+      return { messages: planContext({ ...tab, contextSummary: summary }, history, contextSize, 1, sources).messages, summary };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      // Sending without the oldest messages is better than not answering
+      console.error('Failed to summarize older messages:', error);
+      return { messages: plan.messages };
+    }
+  }
+};
@@ -0,0 +1,185 @@
+import { chatStorage } from './chatStorage';
+import { ollamaService } from './ollamaService';
+import type { Tab } from '../types/chat';
+import { chunkText } from '../utils/documents';
+import { createId } from '../utils/messageTree';
+
+// A file attached to a tab for retrieval
+export interface TabDocument {
+  id: string;
+  name: string;
+  size: number; // Characters
+  chunkCount: number;
+  addedAt: number;
+}
+
+// A piece of a document with its embedding
+export interface DocumentChunk {
+  id: string;
+  documentId: string;
+  documentName: string;
+  startLine: number;
+  endLine: number;
+  text: string;
+  embedding: number[];
+}
+
+// The documents attached to a tab. Their chunks are stored separately, by
+// tab and document. Every chunk is embedded with the same model, so the
+// vectors can be compared.
+export interface KnowledgeBase {
+  embeddingModel: string;
+  documents: TabDocument[];
+}
+
+// A chunk that was sent with a question, kept on the reply so it can be opened later
+export interface Citation {
+  documentName: string;
+  startLine: number;
+  endLine: number;
+  text: string;
+  score: number; // Cosine similarity to the question
+}
+
+// Chunks sent with each question
+const TOP_K = 4;
+// Chunks embedded per request
+const EMBED_BATCH_SIZE = 16;
+
+const SOURCES_PROMPT =
+  'Answer using the numbered excerpts from the user\'s documents below when they are relevant, ' +
+  'and cite them inline like [1] or [2]. If they don\'t contain the answer, say so.';
+
+// Chunks of the tabs searched so far, so each question doesn't read them again
+const chunkCache = new Map<string, DocumentChunk[]>();
+
+// Leave out chunks of documents that are no longer attached, e.g. removed
+// in another window
+const ofDocuments = (chunks: DocumentChunk[], knowledge: KnowledgeBase) => {
+  const documentIds = new Set(knowledge.documents.map(document => document.id));
+  return chunks.filter(chunk => documentIds.has(chunk.documentId));
+};
+
+// The stored chunks of a tab's current documents, cached for later questions
+const loadChunks = async (tabId: string, knowledge: KnowledgeBase): Promise<DocumentChunk[]> => {
+  let chunks = chunkCache.get(tabId);
+  const cachedIds = new Set(chunks?.map(chunk => chunk.documentId));
+  // Another window may have attached documents since the chunks were read
+  if (!chunks || knowledge.documents.some(document => !cachedIds.has(document.id))) {
+    chunks = await chatStorage.loadDocumentChunks(tabId);
+    chunkCache.set(tabId, chunks);
+  }
+  return ofDocuments(chunks, knowledge);
+};
+
+const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+export const documentIndex = {
+  // Chunk, embed and store a document for a tab. onProgress reports embedded
+  // chunks as they finish.
+  async addDocument(
+    tabId: string,
+    embeddingModel: string,
+    name: string,
+    text: string,
+    onProgress?: (done: number, total: number) => void,
+    signal?: AbortSignal
+  ): Promise<TabDocument> {
+    const document: TabDocument = {
+      id: createId('doc'),
+      name,
+      size: text.length,
+      chunkCount: 0,
+      addedAt: Date.now()
+    };
+    const pieces = chunkText(text);
+    const chunks: DocumentChunk[] = [];
+
+    for (let start = 0; start < pieces.length; start += EMBED_BATCH_SIZE) {
+      const batch = pieces.slice(start, start + EMBED_BATCH_SIZE);
+      const embeddings = await ollamaService.embed(embeddingModel, batch.map(piece => piece.text), { signal });
+      batch.forEach((piece, index) => chunks.push({
+        id: createId('chunk'),
+        documentId: document.id,
+        documentName: name,
+        ...piece,
+        embedding: embeddings[index]
+      }));
+      onProgress?.(chunks.length, pieces.length);
+    }
+
+    if (!await chatStorage.saveDocumentChunks(tabId, document.id, chunks)) {
+      throw new Error(`Could not save ${name} in the browser`);
+    }
+    chunkCache.delete(tabId);
+    return { ...document, chunkCount: chunks.length };
+  },
+
+  async removeDocument(tabId: string, documentId: string): Promise<void> {
+    chunkCache.delete(tabId);
+    await chatStorage.deleteDocumentChunks(tabId, documentId);
+  },
+
+  // Store chunks that came with imported tabs, keyed by tab ID. Returns the
+  // IDs of the tabs whose chunks could not be saved.
+  async importChunks(chunksByTab: Record<string, DocumentChunk[]>): Promise<string[]> {
+    const failed = await Promise.all(Object.entries(chunksByTab).map(async ([tabId, chunks]) => {
+      const documentIds = [...new Set(chunks.map(chunk => chunk.documentId))];
+      const saved = await Promise.all(documentIds.map(documentId =>
+        chatStorage.saveDocumentChunks(tabId, documentId, chunks.filter(chunk => chunk.documentId === documentId))
+      ));
+      return saved.every(Boolean) ? [] : [tabId];
+    }));
+    return failed.flat();
+  },
+
+  // The chunks of each tab that has documents, keyed by tab ID, for exporting
+  async exportChunks(tabs: Tab[]): Promise<Record<string, DocumentChunk[]>> {
+    const chunksByTab: Record<string, DocumentChunk[]> = {};
+    await Promise.all(tabs.map(async tab => {
+      if (tab.knowledge) {
+        chunksByTab[tab.id] = ofDocuments(await chatStorage.loadDocumentChunks(tab.id), tab.knowledge);
+      }
+    }));
+    return chunksByTab;
+  },
+
+  // The chunks of a tab's documents closest to a question
+  async retrieve(tabId: string, knowledge: KnowledgeBase, question: string, signal?: AbortSignal): Promise<Citation[]> {
+    if (knowledge.documents.length === 0 || !question.trim()) return [];
+
+    const chunks = await loadChunks(tabId, knowledge);
+    if (chunks.length === 0) return [];
+
+    const [queryEmbedding] = await ollamaService.embed(knowledge.embeddingModel, [question], { signal });
+    return chunks
+      .map(chunk => ({ chunk, score: cosineSimilarity(queryEmbedding, chunk.embedding) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, TOP_K)
+      .map(({ chunk, score }) => ({
+        documentName: chunk.documentName,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        text: chunk.text,
+        score
+      }));
+  },
+
+  // System message with the retrieved excerpts, numbered for citing
+  formatSources(citations: Citation[]): string {
+    const excerpts = citations.map((citation, index) =>
+      `[${index + 1}] ${citation.documentName}, lines ${citation.startLine}-${citation.endLine}:\n${citation.text}`
+    );
+    return [SOURCES_PROMPT, ...excerpts].join('\n\n');
+  }
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { StreamParseError, StreamResponseError, createNdjsonDecoder, readNdjsonStream } from './ndjsonStream';
+import { ConnectionError } from './network';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+// A response body that delivers the given chunks one by one
+const streamOf = (chunks: Uint8Array[]) => new ReadableStream<Uint8Array>({
+  start(controller) {
+    chunks.forEach(chunk => controller.enqueue(chunk));
+    controller.close();
+  }
+});
+
+describe('createNdjsonDecoder', () => {
+  it('joins a line split across chunks', () => {
+    const decoder = createNdjsonDecoder();
+    expect(decoder.push('{"message":{"con')).toEqual([]);
+    expect(decoder.push('tent":"Hi"}}\n{"done"')).toEqual([{ message: { content: 'Hi' } }]);
+    expect(decoder.push(':true}\n')).toEqual([{ done: true }]);
+    expect(decoder.end()).toEqual([]);
+  });
+
+  it('returns every line a chunk completes', () => {
+    const decoder = createNdjsonDecoder();
+    expect(decoder.push('{"a":1}\n\n{"b":2}\n')).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it('joins a multi-byte character split across chunks', () => {
+    const bytes = encode('{"content":"héllo 👋"}\n');
+    const split = bytes.indexOf(0xf0) + 2; // Inside the four bytes of the emoji
+    const decoder = createNdjsonDecoder();
+    expect(decoder.push(bytes.slice(0, 13))).toEqual([]); // Ends inside "é"
+    expect(decoder.push(bytes.slice(13, split))).toEqual([]);
+    expect(decoder.push(bytes.slice(split))).toEqual([{ content: 'héllo 👋' }]);
+  });
+
+  it('throws the message of an error line', () => {
+    const decoder = createNdjsonDecoder();
+    expect(() => decoder.push('{"error":"model \\"x\\" not found"}\n')).toThrow(StreamResponseError);
+    expect(() => createNdjsonDecoder().push('{"error":"model not found"}\n')).toThrow('model not found');
+  });
+
+  it('returns the objects before an error line in the same chunk, then throws', () => {
+    const decoder = createNdjsonDecoder();
+    expect(decoder.push('{"n":1}\n{"error":"x"}\n{"n":2}\n')).toEqual([{ n: 1 }]);
+    expect(() => decoder.push('{"n":3}\n')).toThrow(StreamResponseError);
+  });
+
+  it('throws an error held back behind objects on end', () => {
+    const decoder = createNdjsonDecoder();
+    expect(decoder.push('{"n":1}\nnot json\n')).toEqual([{ n: 1 }]);
+    expect(() => decoder.end()).toThrow(StreamParseError);
+  });
+
+  it('serializes error objects that are not strings', () => {
+    expect(() => createNdjsonDecoder().push('{"error":{"code":500}}\n')).toThrow('{"code":500}');
+  });
+
+  it('throws on a line that is not JSON', () => {
+    expect(() => createNdjsonDecoder().push('not json\n')).toThrow(StreamParseError);
+  });
+
+  it('parses a last line without a trailing newline', () => {
+    const decoder = createNdjsonDecoder();
+    expect(decoder.push('{"a":1}\n{"done":true}')).toEqual([{ a: 1 }]);
+    expect(decoder.end()).toEqual([{ done: true }]);
+  });
+
+  it('checks a last line without a trailing newline for errors', () => {
+    const decoder = createNdjsonDecoder();
+    decoder.push('{"error":"out of memory"}');
+    expect(() => decoder.end()).toThrow('out of memory');
+  });
+});
+
+describe('readNdjsonStream', () => {
+  it('passes on every object of a chunked body, including an unterminated last line', async () => {
+    const objects: unknown[] = [];
+    await readNdjsonStream(
+      streamOf([encode('{"n":1}\n{"n"'), encode(':2}\n{"n":3}')]),
+      object => objects.push(object)
+    );
+    expect(objects).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+  });
+
+  it('rejects with the error from the stream', async () => {
+    const objects: unknown[] = [];
+    await expect(readNdjsonStream(
+      streamOf([encode('{"n":1}\n'), encode('{"error":"model not found"}\n'), encode('{"n":2}\n')]),
+      object => objects.push(object)
+    )).rejects.toThrow('model not found');
+    expect(objects).toEqual([{ n: 1 }]);
+  });
+
+  it('delivers the objects before an error in the same chunk', async () => {
+    const objects: unknown[] = [];
+    await expect(readNdjsonStream(
+      streamOf([encode('{"n":1}\n{"error":"x"}\n')]),
+      object => objects.push(object)
+    )).rejects.toThrow('x');
+    expect(objects).toEqual([{ n: 1 }]);
+  });
+
+  it('reports a dropped connection as a ConnectionError', async () => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encode('{"n":1}\n'));
+        controller.error(new TypeError('network error'));
+      }
+    });
+    await expect(readNdjsonStream(body, () => {})).rejects.toBeInstanceOf(ConnectionError);
+  });
+
+  it('leaves errors from the object handler as they are', async () => {
+    const failure = new TypeError('bug in the handler');
+    await expect(readNdjsonStream(streamOf([encode('{"n":1}\n')]), () => {
+      throw failure;
+    })).rejects.toBe(failure);
+  });
+});
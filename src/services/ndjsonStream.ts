@@ -0,0 +1,128 @@
+// Decoding of newline-delimited JSON (NDJSON) streams, as sent by Ollama's
+// streaming endpoints. The decoder is independent of fetch so it can be fed
+// chunks directly.
+
+import { readFromServer } from './network';
+
+// The server reported an error inside the stream, e.g. {"error":"model not found"}
+export class StreamResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StreamResponseError';
+  }
+}
+
+// A complete line that isn't valid JSON
+export class StreamParseError extends Error {
+  readonly line: string;
+
+  constructor(line: string) {
+    super(`Could not parse a line of the response: ${line.length > 200 ? `${line.slice(0, 200)}…` : line}`);
+    this.name = 'StreamParseError';
+    this.line = line;
+  }
+}
+
+export interface NdjsonDecoder {
+  // Decode the next chunk and return the objects on every line it completes.
+  // When a chunk has good objects before an error line, they are returned
+  // first and the error is thrown by the next push or end.
+  push(chunk: Uint8Array | string): unknown[];
+  // Return the object on a final line that had no trailing newline
+  end(): unknown[];
+}
+
+const parseLine = (line: string): unknown[] => {
+  const jsonLine = line.trim();
+  if (!jsonLine) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonLine);
+  } catch {
+    throw new StreamParseError(jsonLine);
+  }
+
+  if (typeof parsed === 'object' && parsed !== null && 'error' in parsed) {
+    const { error } = parsed as { error: unknown };
+    throw new StreamResponseError(typeof error === 'string' ? error : JSON.stringify(error));
+  }
+  return [parsed];
+};
+
+// Create a decoder that buffers partial lines (and partial UTF-8 characters)
+// between chunks. Error objects and malformed lines throw.
+export const createNdjsonDecoder = (): NdjsonDecoder => {
+  const textDecoder = new TextDecoder();
+  let buffer = ''; // Holds a trailing, not yet terminated line
+  let heldError: unknown = null; // Raised after the objects that came before it
+
+  const throwHeldError = () => {
+    if (heldError) {
+      const error = heldError;
+      heldError = null;
+      throw error;
+    }
+  };
+
+  return {
+    push(chunk) {
+      throwHeldError();
+      buffer += typeof chunk === 'string' ? chunk : textDecoder.decode(chunk, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      const objects: unknown[] = [];
+      for (const line of lines) {
+        try {
+          objects.push(...parseLine(line));
+        } catch (error) {
+          // Lines after an error are dropped, as the stream ends there
+          if (objects.length === 0) throw error;
+          heldError = error;
+          buffer = '';
+          break;
+        }
+      }
+      return objects;
+    },
+
+    end() {
+      throwHeldError();
+      const line = buffer + textDecoder.decode();
+      buffer = '';
+      return parseLine(line);
+    }
+  };
+};
+
+// Read an NDJSON response body to the end, passing each object to onObject
+export const readNdjsonStream = async <T>(
+  body: ReadableStream<Uint8Array>,
+  onObject: (data: T) => void
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = createNdjsonDecoder();
+  const emit = (objects: unknown[]) => objects.forEach(object => onObject(object as T));
+
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await readFromServer(reader);
+      if (done) break;
+      emit(decoder.push(value));
+      // Raise an error held back behind the chunk's objects without waiting
+      // for the next chunk
+      decoder.push('');
+    }
+    finished = true;
+    emit(decoder.end());
+  } finally {
+    // Stop the download when an error object or a bad line ends reading early
+    if (!finished) {
+      reader.cancel().catch(() => {});
+    }
+    reader.releaseLock();
+  }
+};
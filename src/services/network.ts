@@ -0,0 +1,35 @@
+// fetch and response body reads report a server that can't be reached, or a
+// connection that drops mid-response, as a plain TypeError. Wrapping those in
+// a ConnectionError at the call sites keeps them apart from TypeErrors thrown
+// by bugs, which should not be retried or blamed on the network.
+
+export class ConnectionError extends Error {
+  readonly original: TypeError;
+
+  constructor(original: TypeError) {
+    super(original.message || 'Connection failed');
+    this.name = 'ConnectionError';
+    this.original = original;
+  }
+}
+
+const toConnectionError = (error: unknown) =>
+  error instanceof TypeError ? new ConnectionError(error) : error;
+
+// fetch, with network failures thrown as ConnectionError
+export const fetchFromServer = async (url: string, init?: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    throw toConnectionError(error);
+  }
+};
+
+// Read the next chunk of a response body, with a dropped connection thrown as ConnectionError
+export const readFromServer = async <T>(reader: ReadableStreamDefaultReader<T>): Promise<ReadableStreamReadResult<T>> => {
+  try {
+    return await reader.read();
+  } catch (error) {
+    throw toConnectionError(error);
+  }
+};
@@ -1,64 +1,260 @@
 import axios from 'axios';
+import { connectionService } from './connectionService';
+import type { ConnectionProfile } from './connectionService';
+import { readNdjsonStream } from './ndjsonStream';
+import { ConnectionError, fetchFromServer } from './network';
+import type { OutputFormat } from '../utils/jsonSchema';
+import { createThinkingSplitter, splitThinking } from '../utils/thinking';
 
-// Get the API URL for different environments
-const getApiBaseUrl = () => {
-  // In development, use the environment variable directly
-  if (import.meta.env.DEV) {
-    const apiUrl = import.meta.env.VITE_OLLAMA_API_URL;
-    console.log('Using development API URL:', apiUrl);
-    return apiUrl;
-  }
-  
-  // In production, use the current origin
-  // This will route through our proxy server
-  const prodUrl = `${window.location.origin}`;
-  console.log('Using production API URL:', prodUrl);
-  return prodUrl;
-};
-
-// Use the function to determine the API base URL
-const API_BASE_URL = getApiBaseUrl();
-
-interface ModelInfo {
+export interface ModelInfo {
   name: string;
   modified_at: string;
   size: number;
+  digest?: string;
+  details?: ModelDetails['details'];
+}
+
+// A model loaded in memory, as listed by /api/ps
+export interface RunningModel {
+  name: string;
+  model: string;
+  size: number; // Bytes in memory in total
+  size_vram: number; // Bytes of that in GPU memory
+  expires_at: string; // When the model is unloaded unless used again
+  digest?: string;
+  details?: ModelDetails['details'];
+}
+
+// Progress update streamed by /api/pull
+export interface PullProgress {
+  status: string;
+  digest?: string; // Layer being downloaded
+  total?: number;
+  completed?: number;
 }
 
-interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
+  thinking?: string; // Reasoning of an earlier assistant turn
+  images?: string[]; // Base64-encoded images for multimodal models
+  tool_calls?: ToolCall[]; // Tools an assistant turn asked to run
+  tool_name?: string; // Tool whose result a tool turn carries
+}
+
+// A function the model may call, described with a JSON Schema for its arguments
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: {
+      type: 'object';
+      properties: Record<string, { type: string; description?: string; enum?: string[] }>;
+      required?: string[];
+    };
+  };
+}
+
+// A call the model asked for in its reply
+export interface ToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
+// Details returned by /api/show
+export interface ModelDetails {
+  parameters?: string; // Modelfile PARAMETER lines, e.g. "temperature 0.7"
+  template?: string;
+  license?: string;
+  details?: {
+    format?: string;
+    family?: string;
+    families?: string[];
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+  model_info?: Record<string, unknown>;
+  capabilities?: string[];
+}
+
+// Sampling and runtime options understood by Ollama
+export interface ModelOptions {
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  repeat_penalty?: number;
+  num_ctx?: number;
+  num_predict?: number;
+  seed?: number;
+  stop?: string[];
+}
+
+// Options used for tabs that haven't been customized
+export const DEFAULT_MODEL_OPTIONS: ModelOptions = {
+  temperature: 0.7
+};
+
+// Token counts and timings reported with the last chunk of a reply.
+// Durations are in nanoseconds.
+export interface GenerationStats {
+  total_duration?: number;
+  load_duration?: number; // Time spent loading the model into memory
+  prompt_eval_count?: number; // Prompt tokens
+  prompt_eval_duration?: number;
+  eval_count?: number; // Generated tokens
+  eval_duration?: number;
 }
 
-interface ChatResponse {
+const STAT_FIELDS: Array<keyof GenerationStats> = [
+  'total_duration',
+  'load_duration',
+  'prompt_eval_count',
+  'prompt_eval_duration',
+  'eval_count',
+  'eval_duration'
+];
+
+// Copy the numeric stat fields out of a response chunk
+export const pickGenerationStats = (data: object): GenerationStats => {
+  const stats: GenerationStats = {};
+  STAT_FIELDS.forEach(field => {
+    const value = (data as Record<string, unknown>)[field];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      stats[field] = value;
+    }
+  });
+  return stats;
+};
+
+// The final chunk (done: true) also carries the generation stats
+export interface ChatResponse extends GenerationStats {
   message?: {
     role: string;
     content: string;
+    thinking?: string; // Reasoning delta, kept apart from the answer
+    tool_calls?: ToolCall[];
   };
   done?: boolean;
 }
 
+// Per-request settings shared by the chat and completion APIs
+export interface ChatRequestOptions {
+  // Cancels the request and the response stream when aborted
+  signal?: AbortSignal;
+  // Model options; falls back to DEFAULT_MODEL_OPTIONS when omitted
+  options?: ModelOptions;
+  // Tools the model may call; only /api/chat supports them
+  tools?: ToolDefinition[];
+  // Constrain the reply to JSON, optionally matching a JSON Schema
+  format?: OutputFormat;
+  // Turn reasoning on or off for models that support it; the model decides when
+  // omitted. Only Ollama's own APIs take it.
+  think?: boolean;
+  // How long Ollama keeps the model loaded after the request, e.g. "30m";
+  // the server's default when omitted
+  keepAlive?: string;
+}
+
+// Check whether an error was caused by cancelling a request
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof DOMException && error.name === 'AbortError') || axios.isCancel(error);
+
+// Check whether a request failed because the server couldn't be reached or
+// the connection dropped, as opposed to the server answering with an error.
+// Streaming requests throw a ConnectionError; axios an error without a response.
+export const isConnectionError = (error: unknown): boolean =>
+  !isAbortError(error) && (
+    error instanceof ConnectionError ||
+    (axios.isAxiosError(error) && !error.response)
+  );
+
+// Build an error from a failed HTTP response, preferring the server's own
+// message ({"error": "..."} or {"error": {"message": "..."}}) over the raw body
+export const readErrorResponse = async (response: Response): Promise<Error> => {
+  const errorText = await response.text();
+  console.error('Error response:', errorText);
+
+  let message = errorText.trim();
+  try {
+    const { error } = JSON.parse(errorText);
+    if (typeof error === 'string') {
+      message = error;
+    } else if (typeof error?.message === 'string') {
+      message = error.message;
+    }
+  } catch {
+    // Not JSON; use the text as is
+  }
+  return new Error(`${message || response.statusText || 'Request failed'} (HTTP ${response.status})`);
+};
+
 // Define Ollama generate API request interface
 interface OllamaGenerateRequest {
   model: string;
   prompt: string;
   stream: boolean;
   system?: string;
-  options?: {
-    temperature: number;
-  };
+  images?: string[];
+  options?: ModelOptions;
+  format?: OutputFormat;
+  think?: boolean;
+  keep_alive?: string;
+}
+
+// Define Ollama chat API request interface
+interface OllamaChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  stream: boolean;
+  options?: ModelOptions;
+  tools?: ToolDefinition[];
+  format?: OutputFormat;
+  think?: boolean;
+  keep_alive?: string;
+}
+
+// Line of a streamed /api/chat or /api/generate response
+interface OllamaStreamChunk extends GenerationStats {
+  message?: { role: string; content?: string; thinking?: string; tool_calls?: ToolCall[] };
+  response?: string; // /api/generate text
+  thinking?: string; // /api/generate reasoning
+  done?: boolean;
 }
 
+// Status codes returned by servers that don't implement /api/chat
+const CHAT_UNSUPPORTED_STATUSES = [404, 405, 501];
+
+// Speaker labels for the earlier turns written into a /api/generate prompt.
+// Tool results get their own label so the model doesn't take them as its own words.
+const PROMPT_ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System',
+  tool: 'Tool'
+};
+
+// Remember when the server rejected /api/chat so we don't retry it on every message
+let chatEndpointUnsupported = false;
+
 export const ollamaService = {
+  // Check that a server answers /api/version; resolves to e.g. "Ollama 0.5.7"
+  async testConnection(profile: ConnectionProfile): Promise<string> {
+    const data = await connectionService.testConnection(profile, '/api/version') as { version?: string } | undefined;
+    return `Ollama ${data?.version ?? 'unknown'}`;
+  },
+
   // Get list of available models
   async getModels(): Promise<ModelInfo[]> {
     try {
       // For tags, use /api/tags endpoint in both dev and prod
       const endpoint = '/api/tags';
-      const url = `${API_BASE_URL}${endpoint}`;
+      const url = `${connectionService.baseUrl()}${endpoint}`;
       
       console.log('Fetching models from:', url);
-      const response = await axios.get(url);
+      const response = await axios.get(url, { headers: connectionService.headers() });
       console.log('Models response:', response.data);
       return response.data.models;
     } catch (error) {
@@ -72,15 +268,289 @@ export const ollamaService = {
     }
   },
 
+  // Get details for a single model, including its default parameters
+  async getModelInfo(model: string): Promise<ModelDetails> {
+    try {
+      const url = `${connectionService.baseUrl()}/api/show`;
+      console.log('Fetching model details from:', url);
+      const response = await axios.post(url, { model }, { headers: connectionService.headers() });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching model details:', error);
+      if (axios.isAxiosError(error)) {
+        console.error('Status:', error.response?.status);
+        console.error('Response data:', error.response?.data);
+      }
+      throw error;
+    }
+  },
+
+  // Download a model, streaming progress for each layer
+  async pullModel(
+    model: string,
+    onProgress: (progress: PullProgress) => void,
+    requestOptions: Pick<ChatRequestOptions, 'signal'> = {}
+  ): Promise<void> {
+    const url = `${connectionService.baseUrl()}/api/pull`;
+    console.log('Pulling model:', model);
+
+    const response = await fetchFromServer(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...connectionService.headers(),
+      },
+      body: JSON.stringify({ model, stream: true }),
+      signal: requestOptions.signal,
+    });
+
+    if (!response.ok) {
+      throw await readErrorResponse(response);
+    }
+
+    if (!response.body) {
+      throw new Error('Response body is null');
+    }
+
+    // Errors such as unknown model names arrive as a line in the stream and are thrown
+    await readNdjsonStream<PullProgress>(response.body, onProgress);
+  },
+
+  // Embed one or more texts with an embedding model, one vector per input
+  async embed(model: string, input: string[], requestOptions: Pick<ChatRequestOptions, 'signal'> = {}): Promise<number[][]> {
+    try {
+      const response = await axios.post(
+        `${connectionService.baseUrl()}/api/embed`,
+        { model, input },
+        { signal: requestOptions.signal, headers: connectionService.headers() }
+      );
+      const embeddings = response.data?.embeddings;
+      if (!Array.isArray(embeddings) || embeddings.length !== input.length) {
+        throw new Error(`${model} did not return an embedding for every input`);
+      }
+      return embeddings;
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Error creating embeddings:', error);
+      }
+      // Ollama explains failures such as non-embedding models in the body
+      if (axios.isAxiosError(error) && typeof error.response?.data?.error === 'string') {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  // Delete a model from the server
+  async deleteModel(model: string): Promise<void> {
+    try {
+      await axios.delete(`${connectionService.baseUrl()}/api/delete`, { data: { model }, headers: connectionService.headers() });
+    } catch (error) {
+      console.error('Error deleting model:', error);
+      throw error;
+    }
+  },
+
+  // Copy a model under a new name
+  async copyModel(source: string, destination: string): Promise<void> {
+    try {
+      await axios.post(`${connectionService.baseUrl()}/api/copy`, { source, destination }, { headers: connectionService.headers() });
+    } catch (error) {
+      console.error('Error copying model:', error);
+      throw error;
+    }
+  },
+
+  // List the models currently loaded in memory
+  async listRunning(): Promise<RunningModel[]> {
+    try {
+      const response = await axios.get(`${connectionService.baseUrl()}/api/ps`, { headers: connectionService.headers() });
+      return response.data?.models ?? [];
+    } catch (error) {
+      console.error('Error fetching running models:', error);
+      throw error;
+    }
+  },
+
+  // Load a model into memory ahead of use; a generate request without a
+  // prompt only loads it. Loading again also renews its keep-alive time.
+  async loadModel(model: string, keepAlive?: string): Promise<void> {
+    try {
+      await axios.post(
+        `${connectionService.baseUrl()}/api/generate`,
+        { model, keep_alive: keepAlive },
+        { headers: connectionService.headers() }
+      );
+    } catch (error) {
+      console.error('Error loading model:', error);
+      if (axios.isAxiosError(error) && typeof error.response?.data?.error === 'string') {
+        throw new Error(error.response.data.error);
+      }
+      throw error;
+    }
+  },
+
+  // Free a model's memory right away
+  async unloadModel(model: string): Promise<void> {
+    try {
+      await axios.post(
+        `${connectionService.baseUrl()}/api/generate`,
+        { model, keep_alive: 0 },
+        { headers: connectionService.headers() }
+      );
+    } catch (error) {
+      console.error('Error unloading model:', error);
+      throw error;
+    }
+  },
+
+  // Generate a chat completion using Ollama's native chat API
+  async chat(
+    model: string,
+    messages: ChatMessage[],
+    onProgress?: (response: ChatResponse) => void,
+    requestOptions: ChatRequestOptions = {}
+  ): Promise<string> {
+    if (chatEndpointUnsupported) {
+      return this.generateCompletion(model, messages, onProgress, requestOptions);
+    }
+
+    const endpoint = '/api/chat';
+    const url = `${connectionService.baseUrl()}${endpoint}`;
+    console.log('Generating chat response using Ollama chat API:', url);
+
+    // Send the full, typed conversation so the model's chat template is applied
+    const requestBody: OllamaChatRequest = {
+      model,
+      messages,
+      stream: !!onProgress,
+      options: requestOptions.options ?? DEFAULT_MODEL_OPTIONS
+    };
+    if (requestOptions.tools?.length) {
+      requestBody.tools = requestOptions.tools;
+    }
+    if (requestOptions.format) {
+      requestBody.format = requestOptions.format;
+    }
+    if (requestOptions.think !== undefined) {
+      requestBody.think = requestOptions.think;
+    }
+    if (requestOptions.keepAlive) {
+      requestBody.keep_alive = requestOptions.keepAlive;
+    }
+
+    // Only a summary: the payload can hold images and document excerpts
+    if (import.meta.env.DEV) {
+      console.log(`Chat request: ${model}, ${messages.length} messages`);
+    }
+
+    if (onProgress) {
+      // Handle streaming response
+      const response = await fetchFromServer(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...connectionService.headers(),
+        },
+        body: JSON.stringify(requestBody),
+        signal: requestOptions.signal,
+      });
+
+      console.log('Chat response status:', response.status);
+      if (CHAT_UNSUPPORTED_STATUSES.includes(response.status)) {
+        console.warn('Server rejected /api/chat, falling back to /api/generate');
+        chatEndpointUnsupported = true;
+        return this.generateCompletion(model, messages, onProgress, requestOptions);
+      }
+      if (!response.ok) {
+        throw await readErrorResponse(response);
+      }
+
+      if (!response.body) {
+        throw new Error('Response body is null');
+      }
+
+      let fullResponse = '';
+      let stats: GenerationStats = {};
+      // Models without native thinking support write it inline as <think> tags
+      const splitter = createThinkingSplitter();
+
+      try {
+        await readNdjsonStream<OllamaStreamChunk>(response.body, (parsed) => {
+          if (parsed.done) {
+            stats = pickGenerationStats(parsed);
+          }
+
+          // Forward the content delta of each chunk, and tool calls as they arrive
+          const { content, thinking } = splitter.push(parsed.message?.content || '');
+          const allThinking = (parsed.message?.thinking || '') + thinking;
+          const toolCalls = parsed.message?.tool_calls;
+          if (content || allThinking || toolCalls?.length) {
+            fullResponse += content;
+            onProgress({
+              message: {
+                role: 'assistant',
+                content,
+                ...(allThinking && { thinking: allThinking }),
+                ...(toolCalls?.length && { tool_calls: toolCalls })
+              },
+              done: parsed.done || false
+            });
+          }
+        });
+
+        const rest = splitter.flush();
+        fullResponse += rest.content;
+        onProgress({
+          message: { role: 'assistant', content: rest.content, ...(rest.thinking && { thinking: rest.thinking }) },
+          done: true,
+          ...stats
+        });
+      } catch (error) {
+        if (!isAbortError(error)) {
+          console.error('Error reading stream:', error);
+        }
+        throw error;
+      }
+
+      return fullResponse;
+    } else {
+      // Handle non-streaming response
+      try {
+        const response = await axios.post(url, requestBody, {
+          signal: requestOptions.signal,
+          headers: connectionService.headers()
+        });
+        console.log('Non-streaming chat response:', response.status);
+        return splitThinking(response.data?.message?.content || '').content;
+      } catch (error) {
+        if (axios.isAxiosError(error) && CHAT_UNSUPPORTED_STATUSES.includes(error.response?.status ?? 0)) {
+          console.warn('Server rejected /api/chat, falling back to /api/generate');
+          chatEndpointUnsupported = true;
+          return this.generateCompletion(model, messages, onProgress, requestOptions);
+        }
+        console.error('Error generating chat response:', error);
+        if (axios.isAxiosError(error)) {
+          console.error('Status:', error.response?.status);
+          console.error('Response data:', error.response?.data);
+          console.error('Request URL:', url);
+        }
+        throw error;
+      }
+    }
+  },
+
   // Generate chat completion using Ollama's completion API as a fallback
+  // for servers that don't support /api/chat
   async generateCompletion(
     model: string,
     messages: ChatMessage[],
-    onProgress?: (response: ChatResponse) => void
+    onProgress?: (response: ChatResponse) => void,
+    requestOptions: ChatRequestOptions = {}
   ): Promise<string> {
     // Use Ollama's generate API endpoint
     const endpoint = '/api/generate';
-    const url = `${API_BASE_URL}${endpoint}`;
+    const url = `${connectionService.baseUrl()}${endpoint}`;
     console.log('Generating completion using Ollama generate API:', url);
     
     // Extract the last user message as the prompt
@@ -89,141 +559,122 @@ export const ollamaService = {
       throw new Error('No user message found in the conversation');
     }
     
+    // System turns become the system prompt
+    const instructions = messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => msg.content)
+      .join('\n\n');
+
     // Create a system prompt from previous messages
     let systemPrompt = '';
-    if (messages.length > 1) {
+    const previousMessages = messages
+      .slice(0, messages.lastIndexOf(lastUserMessage)) // Everything before the prompt
+      .filter(msg => msg.role !== 'system');
+    if (previousMessages.length > 0) {
       // Format previous messages as a conversation
-      const previousMessages = messages.slice(0, -1); // All except the last user message
-      if (previousMessages.length > 0) {
-        systemPrompt = previousMessages
-          .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
-          .join('\n\n');
-      }
+      systemPrompt = previousMessages
+        .map(msg => `${PROMPT_ROLE_LABELS[msg.role]}: ${msg.content}`)
+        .join('\n\n');
     }
     
     // Create request body according to Ollama's generate API specification
     const requestBody: OllamaGenerateRequest = {
       model,
       prompt: lastUserMessage.content,
+      images: lastUserMessage.images,
       stream: !!onProgress,
-      options: {
-        temperature: 0.7
-      }
+      options: requestOptions.options ?? DEFAULT_MODEL_OPTIONS,
+      format: requestOptions.format,
+      think: requestOptions.think,
+      keep_alive: requestOptions.keepAlive
     };
     
     // Add system prompt if available
-    if (systemPrompt) {
-      requestBody.system = `Previous conversation:\n${systemPrompt}`;
+    const systemParts = [
+      instructions,
+      systemPrompt && `Previous conversation:\n${systemPrompt}`
+    ].filter(Boolean);
+    if (systemParts.length > 0) {
+      requestBody.system = systemParts.join('\n\n');
     }
     
-    console.log('Request payload:', JSON.stringify(requestBody, null, 2));
+    if (import.meta.env.DEV) {
+      console.log(`Completion request: ${model}, ${messages.length} messages`);
+    }
     
     if (onProgress) {
       // Handle streaming response
-      const response = await fetch(url, {
+      const response = await fetchFromServer(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...connectionService.headers(),
         },
         body: JSON.stringify(requestBody),
+        signal: requestOptions.signal,
       });
 
       // Log response status for debugging
       console.log('Generation response status:', response.status);
       if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Error response:', errorText);
-        throw new Error(`HTTP error! status: ${response.status}, details: ${errorText}`);
+        throw await readErrorResponse(response);
       }
 
       if (!response.body) {
         throw new Error('Response body is null');
       }
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
       let fullResponse = '';
-      let buffer = ''; // Buffer to collect partial JSON chunks
+      let stats: GenerationStats = {};
+      const splitter = createThinkingSplitter();
 
       try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          // Decode the chunk and add to buffer
-          const chunk = decoder.decode(value, { stream: true });
-          buffer += chunk;
-          
-          // Process complete JSON objects from the buffer
-          let startIndex = 0;
-          let endIndex = -1;
-          
-          // Find each newline-delimited JSON object in the buffer
-          while ((endIndex = buffer.indexOf('\n', startIndex)) !== -1) {
-            const jsonLine = buffer.substring(startIndex, endIndex).trim();
-            if (jsonLine) { // Skip empty lines
-              try {
-                const parsed = JSON.parse(jsonLine);
-                
-                // Extract content from Ollama's completion API response
-                if (parsed.response) {
-                  const content = parsed.response || '';
-                  
-                  if (content) {
-                    fullResponse += content;
-                    
-                    // Adapt to our expected format
-                    const adaptedResponse: ChatResponse = {
-                      message: {
-                        role: 'assistant',
-                        content
-                      },
-                      done: parsed.done || false
-                    };
-                    
-                    onProgress(adaptedResponse);
-                  }
-                }
-              } catch (e) {
-                // If we can't parse the current line, it might be incomplete
-                buffer = buffer.substring(startIndex);
-                break;
-              }
-            }
-            startIndex = endIndex + 1;
+        await readNdjsonStream<OllamaStreamChunk>(response.body, (parsed) => {
+          // The last line carries the stats and no text
+          if (parsed.done) {
+            stats = pickGenerationStats(parsed);
           }
-          
-          // Keep any remaining incomplete data in the buffer
-          if (startIndex < buffer.length) {
-            buffer = buffer.substring(startIndex);
-          } else {
-            buffer = '';
+
+          // Adapt the completion API's text to the chat response format
+          const { content, thinking } = splitter.push(parsed.response || '');
+          const allThinking = (parsed.thinking || '') + thinking;
+          if (content || allThinking) {
+            fullResponse += content;
+            onProgress({
+              message: { role: 'assistant', content, ...(allThinking && { thinking: allThinking }) },
+              done: parsed.done || false
+            });
           }
-        }
-        
-        // Signal completion if not already done
+        });
+
+        // Signal completion, passing on the stats from the last line
+        const rest = splitter.flush();
+        fullResponse += rest.content;
         onProgress({
-          message: { role: 'assistant', content: '' },
-          done: true
+          message: { role: 'assistant', content: rest.content, ...(rest.thinking && { thinking: rest.thinking }) },
+          done: true,
+          ...stats
         });
-        
       } catch (error) {
-        console.error('Error reading stream:', error);
+        if (!isAbortError(error)) {
+          console.error('Error reading stream:', error);
+        }
         throw error;
-      } finally {
-        reader.releaseLock();
       }
 
       return fullResponse;
     } else {
       // Handle non-streaming response
       try {
-        const response = await axios.post(url, requestBody);
+        const response = await axios.post(url, requestBody, {
+          signal: requestOptions.signal,
+          headers: connectionService.headers()
+        });
         console.log('Non-streaming response:', response.status);
         
         // Extract content from Ollama's completion API response
         if (response.data && response.data.response) {
-          return response.data.response || '';
+          return splitThinking(response.data.response).content;
         }
         
         return '';
@@ -234,7 +685,6 @@ export const ollamaService = {
           console.error('Status:', error.response?.status);
           console.error('Response data:', error.response?.data);
           console.error('Request URL:', url);
-          console.error('Request body:', JSON.stringify(requestBody, null, 2));
         }
         throw error;
       }
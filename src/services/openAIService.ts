@@ -0,0 +1,277 @@
+import axios from 'axios';
+import { connectionService } from './connectionService';
+import type { ConnectionProfile } from './connectionService';
+import { DEFAULT_MODEL_OPTIONS, isAbortError, readErrorResponse } from './ollamaService';
+import type {
+  ChatMessage,
+  ChatRequestOptions,
+  ChatResponse,
+  GenerationStats,
+  ModelInfo,
+  ModelOptions
+} from './ollamaService';
+import { fetchFromServer, readFromServer } from './network';
+import { StreamParseError } from './ndjsonStream';
+import { imageDataUrl } from '../utils/images';
+import type { OutputFormat } from '../utils/jsonSchema';
+import { createThinkingSplitter, splitThinking } from '../utils/thinking';
+
+// Message content as sent to /v1/chat/completions: plain text, or text
+// plus images for vision models
+type OpenAIContent =
+  | string
+  | Array<{ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } }>;
+
+interface OpenAIChatRequest {
+  model: string;
+  messages: Array<{ role: ChatMessage['role']; content: OpenAIContent }>;
+  stream: boolean;
+  stream_options?: { include_usage: boolean }; // Ask for token counts in the last chunk
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  seed?: number;
+  stop?: string[];
+  response_format?:
+    | { type: 'json_object' }
+    | { type: 'json_schema'; json_schema: { name: string; schema: Record<string, unknown> } };
+}
+
+interface OpenAIModel {
+  id: string;
+  created?: number;
+  owned_by?: string;
+}
+
+const toOpenAIMessage = ({ role, content, images }: ChatMessage) => ({
+  role,
+  content: images?.length
+    ? [
+      { type: 'text' as const, text: content },
+      ...images.map(image => ({ type: 'image_url' as const, image_url: { url: imageDataUrl(image) } }))
+    ]
+    : content
+});
+
+// Map Ollama-style options onto the standard OpenAI parameters. Options
+// without a standard equivalent (top_k, repeat_penalty, num_ctx) are left out
+// because strict servers reject unknown fields.
+const toOpenAIOptions = (options: ModelOptions) => ({
+  temperature: options.temperature,
+  top_p: options.top_p,
+  max_tokens: options.num_predict !== undefined && options.num_predict > 0 ? options.num_predict : undefined,
+  seed: options.seed,
+  stop: options.stop
+});
+
+// Ollama's format field as an OpenAI response_format
+const toResponseFormat = (format: OutputFormat): OpenAIChatRequest['response_format'] =>
+  format === 'json'
+    ? { type: 'json_object' }
+    : { type: 'json_schema', json_schema: { name: 'reply', schema: format } };
+
+// Read a server-sent event stream, passing the data of each event to onData
+const readServerSentEvents = async (body: ReadableStream<Uint8Array>, onData: (data: string) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = ''; // Holds a trailing, not yet terminated line
+  let dataLines: string[] = []; // Data of the event being read
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onData(dataLines.join('\n'));
+      dataLines = [];
+    }
+  };
+
+  // A blank line ends an event; other fields (event:, id:, comments) are ignored
+  const handleLine = (line: string) => {
+    const trimmedLine = line.replace(/\r$/, '');
+    if (trimmedLine === '') {
+      dispatch();
+    } else if (trimmedLine.startsWith('data:')) {
+      dataLines.push(trimmedLine.slice(5).replace(/^ /, ''));
+    }
+  };
+
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await readFromServer(reader);
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+
+    // Flush whatever is left once the stream has ended
+    buffer += decoder.decode();
+    finished = true;
+    if (buffer) handleLine(buffer);
+    dispatch();
+  } finally {
+    // Stop the download when an event handler ends reading early
+    if (!finished) {
+      reader.cancel().catch(() => {});
+    }
+    reader.releaseLock();
+  }
+};
+
+// Client for servers that implement the OpenAI API, such as llama.cpp
+// server, vLLM, LM Studio or Ollama's own /v1 endpoints
+export const openAIService = {
+  // Check that a server answers /v1/models, which these servers have instead
+  // of Ollama's /api/version
+  async testConnection(profile: ConnectionProfile): Promise<string> {
+    const data = await connectionService.testConnection(profile, '/v1/models') as { data?: unknown[] } | undefined;
+    const count = Array.isArray(data?.data) ? data.data.length : 0;
+    return `OpenAI-compatible, ${count} model${count === 1 ? '' : 's'}`;
+  },
+
+  // Get list of available models
+  async getModels(): Promise<ModelInfo[]> {
+    try {
+      const url = `${connectionService.baseUrl()}/v1/models`;
+      console.log('Fetching models from:', url);
+      const response = await axios.get(url, { headers: connectionService.headers() });
+      const models: OpenAIModel[] = response.data?.data ?? [];
+      return models.map(model => ({
+        name: model.id,
+        modified_at: model.created ? new Date(model.created * 1000).toISOString() : '',
+        size: 0
+      }));
+    } catch (error) {
+      console.error('Error fetching models:', error);
+      if (axios.isAxiosError(error)) {
+        console.error('Status:', error.response?.status);
+        console.error('Response data:', error.response?.data);
+      }
+      throw error;
+    }
+  },
+
+  // Generate a chat completion using /v1/chat/completions
+  async chat(
+    model: string,
+    messages: ChatMessage[],
+    onProgress?: (response: ChatResponse) => void,
+    requestOptions: ChatRequestOptions = {}
+  ): Promise<string> {
+    const url = `${connectionService.baseUrl()}/v1/chat/completions`;
+    console.log('Generating chat response using OpenAI-compatible API:', url);
+
+    const requestBody: OpenAIChatRequest = {
+      model,
+      messages: messages.map(toOpenAIMessage),
+      stream: !!onProgress,
+      stream_options: onProgress ? { include_usage: true } : undefined,
+      ...toOpenAIOptions(requestOptions.options ?? DEFAULT_MODEL_OPTIONS),
+      response_format: requestOptions.format ? toResponseFormat(requestOptions.format) : undefined
+    };
+
+    if (!onProgress) {
+      try {
+        const response = await axios.post(url, requestBody, {
+          signal: requestOptions.signal,
+          headers: connectionService.headers()
+        });
+        return splitThinking(response.data?.choices?.[0]?.message?.content || '').content;
+      } catch (error) {
+        console.error('Error generating chat response:', error);
+        if (axios.isAxiosError(error)) {
+          console.error('Status:', error.response?.status);
+          console.error('Response data:', error.response?.data);
+        }
+        throw error;
+      }
+    }
+
+    const response = await fetchFromServer(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...connectionService.headers(),
+      },
+      body: JSON.stringify(requestBody),
+      signal: requestOptions.signal,
+    });
+
+    console.log('Chat response status:', response.status);
+    if (!response.ok) {
+      throw await readErrorResponse(response);
+    }
+
+    if (!response.body) {
+      throw new Error('Response body is null');
+    }
+
+    let fullResponse = '';
+    let streamError = '';
+    const splitter = createThinkingSplitter();
+    // Only token counts are reported; the API has no timings
+    let stats: GenerationStats = {};
+
+    try {
+      await readServerSentEvents(response.body, (data) => {
+        // The stream ends with a literal [DONE] event
+        if (data === '[DONE]') return;
+
+        // A malformed event ends the reply with an error rather than a silent gap
+        let parsed;
+        try {
+          parsed = JSON.parse(data);
+        } catch {
+          throw new StreamParseError(data);
+        }
+
+        if (parsed.error) {
+          streamError = parsed.error.message ?? String(parsed.error);
+          return;
+        }
+
+        if (parsed.usage) {
+          stats = {
+            prompt_eval_count: parsed.usage.prompt_tokens,
+            eval_count: parsed.usage.completion_tokens
+          };
+        }
+
+        // Forward the content delta of each chunk. Servers name the reasoning
+        // field differently, and some leave it inline as <think> tags.
+        const delta = parsed.choices?.[0]?.delta;
+        const { content, thinking } = splitter.push(delta?.content || '');
+        const allThinking = (delta?.reasoning_content || delta?.reasoning || '') + thinking;
+        if (content || allThinking) {
+          fullResponse += content;
+          onProgress({
+            message: { role: 'assistant', content, ...(allThinking && { thinking: allThinking }) },
+            done: false
+          });
+        }
+      });
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Error reading stream:', error);
+      }
+      throw error;
+    }
+
+    if (streamError) {
+      throw new Error(streamError);
+    }
+
+    const rest = splitter.flush();
+    fullResponse += rest.content;
+    onProgress({
+      message: { role: 'assistant', content: rest.content, ...(rest.thinking && { thinking: rest.thinking }) },
+      done: true,
+      ...stats
+    });
+
+    return fullResponse;
+  }
+};
@@ -0,0 +1,61 @@
+import type { ConnectionProfile } from './connectionService';
+import { ollamaService } from './ollamaService';
+import type { ChatMessage, ChatRequestOptions, ChatResponse, ModelInfo } from './ollamaService';
+import { openAIService } from './openAIService';
+
+export type ProviderId = 'ollama' | 'openai';
+
+// A backend the chat can talk to
+export interface ChatProvider {
+  id: ProviderId;
+  label: string;
+  // Whether the server supports Ollama's model management endpoints
+  // (/api/show, /api/pull, /api/delete, /api/copy)
+  supportsModelManagement: boolean;
+  // Whether chat() accepts tools and reports the model's tool calls
+  supportsTools: boolean;
+  // Check that a server speaks this provider's API; resolves to a short
+  // description of it for the connection manager
+  testConnection(profile: ConnectionProfile): Promise<string>;
+  listModels(): Promise<ModelInfo[]>;
+  // Stream a reply; abort requestOptions.signal to cancel the request and the stream
+  chat(
+    model: string,
+    messages: ChatMessage[],
+    onProgress?: (response: ChatResponse) => void,
+    requestOptions?: ChatRequestOptions
+  ): Promise<string>;
+}
+
+const ollamaProvider: ChatProvider = {
+  id: 'ollama',
+  label: 'Ollama',
+  supportsModelManagement: true,
+  supportsTools: true,
+  testConnection: (profile) => ollamaService.testConnection(profile),
+  listModels: () => ollamaService.getModels(),
+  chat: (model, messages, onProgress, requestOptions) =>
+    ollamaService.chat(model, messages, onProgress, requestOptions)
+};
+
+const openAIProvider: ChatProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  supportsModelManagement: false,
+  supportsTools: false,
+  testConnection: (profile) => openAIService.testConnection(profile),
+  listModels: () => openAIService.getModels(),
+  chat: (model, messages, onProgress, requestOptions) =>
+    openAIService.chat(model, messages, onProgress, requestOptions)
+};
+
+export const DEFAULT_PROVIDER_ID: ProviderId = 'ollama';
+
+// Providers in the order they are offered in the UI
+export const PROVIDERS: ChatProvider[] = [ollamaProvider, openAIProvider];
+
+export const isProviderId = (value: unknown): value is ProviderId =>
+  PROVIDERS.some(provider => provider.id === value);
+
+export const getProvider = (id: ProviderId = DEFAULT_PROVIDER_ID): ChatProvider =>
+  PROVIDERS.find(provider => provider.id === id) ?? ollamaProvider;
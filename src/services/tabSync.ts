@@ -0,0 +1,97 @@
+import type { Tab } from '../types/chat';
+import { createId } from '../utils/messageTree';
+
+// Messages between windows of the app open in the same browser. Saved tabs
+// are sent whole; replies being generated are sent as their text so far.
+export type SyncMessage =
+  | { type: 'tab-saved'; tab: Tab; baseRevision: number }
+  | { type: 'tab-deleted'; tabId: string }
+  | { type: 'tab-order'; tabOrder: string[] }
+  | { type: 'generation'; tabId: string; nodeId: string; content: string }
+  | { type: 'generation-done'; tabId: string; nodeId: string }
+  | { type: 'window-closed' };
+
+type SyncEnvelope = SyncMessage & { windowId: string };
+type SyncListener = (message: SyncMessage, windowId: string) => void;
+
+const CHANNEL_NAME = 'vibed-sync';
+
+// Least time between two updates of a reply being generated
+const GENERATION_INTERVAL_MS = 100;
+
+// Identifies this window in the messages it sends
+export const WINDOW_ID = createId('window');
+
+let channel: BroadcastChannel | null = null;
+const listeners = new Set<SyncListener>();
+const generationTimers = new Map<string, { timer: ReturnType<typeof setTimeout> | null; content: string; tabId: string }>();
+
+// Open the channel on first use; browsers without BroadcastChannel just don't sync
+const getChannel = (): BroadcastChannel | null => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SyncEnvelope>) => {
+      const { windowId, ...message } = event.data;
+      listeners.forEach(listener => listener(message as SyncMessage, windowId));
+    };
+  }
+  return channel;
+};
+
+const post = (message: SyncMessage) => {
+  try {
+    getChannel()?.postMessage({ ...message, windowId: WINDOW_ID });
+  } catch (error) {
+    console.error('Failed to send a sync message:', error);
+  }
+};
+
+export const tabSync = {
+  isSupported(): boolean {
+    return typeof BroadcastChannel !== 'undefined';
+  },
+
+  publish(message: SyncMessage) {
+    post(message);
+  },
+
+  // Send the text of a reply being generated, at most every GENERATION_INTERVAL_MS.
+  // The latest text is always sent, just possibly a little later.
+  publishGeneration(tabId: string, nodeId: string, content: string) {
+    const pending = generationTimers.get(nodeId);
+    if (pending) {
+      pending.content = content;
+      return;
+    }
+
+    post({ type: 'generation', tabId, nodeId, content });
+    const entry = { timer: null as ReturnType<typeof setTimeout> | null, content, tabId };
+    entry.timer = setTimeout(() => {
+      generationTimers.delete(nodeId);
+      if (entry.content !== content) {
+        tabSync.publishGeneration(tabId, nodeId, entry.content);
+      }
+    }, GENERATION_INTERVAL_MS);
+    generationTimers.set(nodeId, entry);
+  },
+
+  // Send any text still held back, then tell other windows the reply is finished
+  endGeneration(tabId: string, nodeId: string) {
+    const pending = generationTimers.get(nodeId);
+    if (pending) {
+      if (pending.timer) clearTimeout(pending.timer);
+      generationTimers.delete(nodeId);
+      post({ type: 'generation', tabId, nodeId, content: pending.content });
+    }
+    post({ type: 'generation-done', tabId, nodeId });
+  },
+
+  // Subscribe to messages from other windows; returns an unsubscribe function
+  subscribe(listener: SyncListener): () => void {
+    getChannel();
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
@@ -0,0 +1,55 @@
+import type { ChatMessage, ChatRequestOptions, ChatResponse, ToolCall } from './ollamaService';
+import type { ChatProvider } from './providers';
+import { toolRegistry } from './toolRegistry';
+import type { ToolContext, ToolStep } from './toolRegistry';
+
+// Rounds of tool calls before the model has to answer without tools
+const MAX_TOOL_ROUNDS = 5;
+
+interface ToolLoopOptions {
+  context: ToolContext;
+  onProgress: (response: ChatResponse) => void;
+  onStep: (step: ToolStep) => void; // Called as each tool call finishes
+  requestOptions?: ChatRequestOptions;
+}
+
+export const toolLoop = {
+  // Chat with the built-in tools available. Whenever the model asks for tools
+  // they are run, their results are sent back as tool messages and the model
+  // is asked again, until it answers without calling anything.
+  async chat(
+    provider: ChatProvider,
+    model: string,
+    messages: ChatMessage[],
+    { context, onProgress, onStep, requestOptions = {} }: ToolLoopOptions
+  ): Promise<string> {
+    const conversation = [...messages];
+    let answer = '';
+
+    for (let round = 0; ; round++) {
+      const toolCalls: ToolCall[] = [];
+      // The last round goes without tools so the loop always ends in an answer
+      const tools = round < MAX_TOOL_ROUNDS ? toolRegistry.definitions() : undefined;
+
+      const content = await provider.chat(
+        model,
+        conversation,
+        (response) => {
+          toolCalls.push(...(response.message?.tool_calls ?? []));
+          onProgress(response);
+        },
+        { ...requestOptions, tools }
+      );
+      answer += content;
+      if (toolCalls.length === 0) return answer;
+
+      conversation.push({ role: 'assistant', content, tool_calls: toolCalls });
+      for (const call of toolCalls) {
+        requestOptions.signal?.throwIfAborted();
+        const step = await toolRegistry.run(call, context);
+        onStep(step);
+        conversation.push({ role: 'tool', content: step.result, tool_name: step.name });
+      }
+    }
+  }
+};
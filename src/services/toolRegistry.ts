@@ -0,0 +1,203 @@
+import type { ToolCall, ToolDefinition } from './ollamaService';
+import type { SearchResult } from '../utils/searchIndex';
+import { evaluateExpression } from '../utils/calculator';
+import { convertUnit } from '../utils/unitConversion';
+
+// What the app lets tools look at while they run
+export interface ToolContext {
+  searchChats: (query: string, limit: number) => SearchResult[];
+}
+
+// A function the model can call. Tools run in the browser and only see
+// their arguments and the context; they never reach the network or eval.
+export interface Tool {
+  definition: ToolDefinition;
+  run(args: Record<string, unknown>, context: ToolContext): string | Promise<string>;
+}
+
+// A finished tool call, as saved with the reply and shown in the message list
+export interface ToolStep {
+  name: string;
+  arguments: Record<string, unknown>;
+  result: string;
+  isError?: boolean;
+}
+
+// Most results the chat-history tool returns
+const MAX_SEARCH_RESULTS = 10;
+
+const stringArg = (args: Record<string, unknown>, name: string): string => {
+  const value = args[name];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`"${name}" must be a non-empty string`);
+  }
+  return value;
+};
+
+const numberArg = (args: Record<string, unknown>, name: string): number => {
+  // Some models send numbers as strings
+  const value = typeof args[name] === 'string' ? Number(args[name]) : args[name];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`"${name}" must be a number`);
+  }
+  return value;
+};
+
+// Arguments normally arrive as an object, but some models send a JSON string
+const parseArguments = (value: unknown): Record<string, unknown> => {
+  if (typeof value === 'string') {
+    try {
+      return parseArguments(JSON.parse(value));
+    } catch {
+      return {};
+    }
+  }
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+};
+
+// Round away floating point noise such as 0.30000000000000004
+const formatNumber = (value: number) => String(Number(value.toPrecision(12)));
+
+const calculatorTool: Tool = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'calculator',
+      description: 'Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, ' +
+        'pi, e and the functions sqrt, cbrt, abs, round, floor, ceil, exp, ln, log (base 10), log2, ' +
+        'sin, cos, tan, asin, acos, atan (radians), min, max and pow.',
+      parameters: {
+        type: 'object',
+        properties: {
+          expression: { type: 'string', description: 'Expression to evaluate, e.g. "(3 + 4) * sqrt(2)"' }
+        },
+        required: ['expression']
+      }
+    }
+  },
+  run: (args) => formatNumber(evaluateExpression(stringArg(args, 'expression')))
+};
+
+const dateTimeTool: Tool = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'current_datetime',
+      description: 'Get the current date, time and day of the week, in the user\'s time zone or a given one.',
+      parameters: {
+        type: 'object',
+        properties: {
+          time_zone: { type: 'string', description: 'IANA time zone such as "Europe/Paris"; defaults to the user\'s' }
+        }
+      }
+    }
+  },
+  run: (args) => {
+    const now = new Date();
+    const timeZone = typeof args.time_zone === 'string' && args.time_zone.trim()
+      ? args.time_zone.trim()
+      : Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+    let local: string;
+    try {
+      local = now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' });
+    } catch {
+      throw new Error(`Unknown time zone "${timeZone}"`);
+    }
+    return JSON.stringify({ local, time_zone: timeZone, iso_utc: now.toISOString() });
+  }
+};
+
+const unitConversionTool: Tool = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'convert_units',
+      description: 'Convert a value between units of length, mass, volume, area, speed, time, ' +
+        'data size or temperature, e.g. miles to km, lb to kg, °F to °C, GiB to GB.',
+      parameters: {
+        type: 'object',
+        properties: {
+          value: { type: 'number', description: 'Amount to convert' },
+          from: { type: 'string', description: 'Unit of the value, e.g. "mi" or "fahrenheit"' },
+          to: { type: 'string', description: 'Unit to convert to, e.g. "km" or "celsius"' }
+        },
+        required: ['value', 'from', 'to']
+      }
+    }
+  },
+  run: (args) => {
+    const from = stringArg(args, 'from');
+    const to = stringArg(args, 'to');
+    const result = convertUnit(numberArg(args, 'value'), from, to);
+    return `${formatNumber(result)} ${to}`;
+  }
+};
+
+const chatSearchTool: Tool = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'search_chat_history',
+      description: 'Full-text search of the user\'s earlier conversations in this app. ' +
+        'Use it when the user refers to something discussed before.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Words to look for' }
+        },
+        required: ['query']
+      }
+    }
+  },
+  run: (args, context) => {
+    const results = context.searchChats(stringArg(args, 'query'), MAX_SEARCH_RESULTS);
+    if (results.length === 0) return 'No messages found.';
+
+    return results
+      .map(result => {
+        const snippet = result.snippet.map(part => part.text).join('');
+        return `[${result.tabName}] ${result.role === 'user' ? 'User' : 'Assistant'}: ${snippet}`;
+      })
+      .join('\n');
+  }
+};
+
+const tools = new Map<string, Tool>();
+
+export const toolRegistry = {
+  // Add a tool, replacing any tool with the same name
+  register(tool: Tool) {
+    tools.set(tool.definition.function.name, tool);
+  },
+
+  definitions(): ToolDefinition[] {
+    return [...tools.values()].map(tool => tool.definition);
+  },
+
+  // Run a call from the model. Failures become error results, which the
+  // model gets to see and can recover from.
+  async run(call: ToolCall, context: ToolContext): Promise<ToolStep> {
+    const { name } = call.function;
+    const args = parseArguments(call.function.arguments);
+    const tool = tools.get(name);
+    if (!tool) {
+      return { name, arguments: args, result: `Unknown tool "${name}"`, isError: true };
+    }
+
+    try {
+      return { name, arguments: args, result: await tool.run(args, context) };
+    } catch (error) {
+      return {
+        name,
+        arguments: args,
+        result: error instanceof Error ? error.message : String(error),
+        isError: true
+      };
+    }
+  }
+};
+
+[calculatorTool, dateTimeTool, unitConversionTool, chatSearchTool].forEach(tool => toolRegistry.register(tool));
@@ -0,0 +1,82 @@
+import type { GenerationStats, ModelOptions } from '../services/ollamaService';
+import type { ProviderId } from '../services/providers';
+import type { ContextStrategy, ContextSummary } from '../services/contextManager';
+import type { ToolStep } from '../services/toolRegistry';
+import type { Citation, KnowledgeBase } from '../services/documentIndex';
+import type { OutputFormat } from '../utils/jsonSchema';
+
+// Shared types for chat tabs and their messages
+
+export interface Message {
+  role: 'assistant' | 'user';
+  content: string;
+  images?: string[]; // Base64-encoded image attachments
+  stopped?: boolean; // Generation was cancelled before the reply finished
+  error?: string; // Generation failed; shown with a retry button
+  pinned?: boolean; // Always sent with the keep-pinned context strategy
+  model?: string; // Model that wrote an assistant reply
+  stats?: GenerationStats; // Token counts and timings of an assistant reply
+  toolSteps?: ToolStep[]; // Tools the model called while writing the reply, in order
+  format?: OutputFormat; // Structured output format the reply was asked to follow
+  citations?: Citation[]; // Document excerpts sent with the question, numbered as in the reply
+  thinking?: string; // Reasoning a thinking model wrote before its answer
+  thinkingDuration?: number; // How long the model reasoned, in milliseconds
+}
+
+// A message in a tab's conversation tree. Editing a message or regenerating
+// a reply adds a sibling node, so earlier versions stay reachable as branches.
+export interface MessageNode extends Message {
+  id: string;
+  parentId: string | null; // null for the first message of a conversation
+  childIds: string[];
+  activeChildId?: string; // Branch shown below this message
+  createdAt: number;
+}
+
+export interface Tab {
+  id: string;
+  name: string;
+  // How the name was chosen: generated after the first exchange, or typed by
+  // the user. Unset for placeholder names, which may still be replaced.
+  nameSource?: 'auto' | 'user';
+  pinned?: boolean; // Pinned tabs stay at the front of the tab bar
+  nodes: Record<string, MessageNode>;
+  rootIds: string[]; // Alternative first messages
+  activeRootId?: string;
+  systemPrompt?: string; // Sent as a system message ahead of the conversation
+  options?: ModelOptions; // Generation parameters; service defaults when unset
+  contextStrategy?: ContextStrategy; // What to do when the chat outgrows the context
+  contextSummary?: ContextSummary; // Summary of older messages, with the summarize strategy
+  format?: OutputFormat; // Structured output mode: replies must be JSON, matching a schema if given
+  think?: boolean; // Reasoning on or off for models that support it; the model's default when unset
+  excludeThinking?: boolean; // Leave earlier replies' reasoning out of requests
+  keepAlive?: string; // How long Ollama keeps the model loaded after a reply; the server's default when unset
+  provider?: ProviderId; // Backend the tab talks to; Ollama when unset
+  model?: string; // Model the tab uses
+  // Set for comparison tabs, which send every prompt to each of these models
+  // (2 to 4, same provider) and show the answers side by side
+  compareModels?: string[];
+  knowledge?: KnowledgeBase; // Attached documents; relevant excerpts are sent with each question
+  createdAt?: number;
+  updatedAt?: number;
+  // Bumped on every save, so windows sharing the storage can tell which
+  // version of the tab another window started from
+  revision?: number;
+}
+
+// Per-tab settings edited in the generation settings drawer
+export type TabSettings = Pick<Tab, 'options' | 'contextStrategy' | 'format' | 'think' | 'excludeThinking' | 'keepAlive'>;
+
+// A named, reusable system prompt
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+}
+
+// A reusable prompt; {{name}} placeholders are filled in before it is inserted
+export interface SavedPrompt {
+  id: string;
+  name: string;
+  content: string;
+}
@@ -0,0 +1,177 @@
+// Arithmetic for the calculator tool. Expressions are parsed by hand rather
+// than passed to eval, so model output can never run as code.
+//
+// Grammar, loosest binding first:
+//   expression = term (("+" | "-") term)*
+//   term       = unary (("*" | "/" | "%") unary)*
+//   unary      = ("+" | "-") unary | power      so -2^2 is -(2^2)
+//   power      = call ("^" unary)?              right-associative
+//   call       = name "(" expression ("," expression)* ")" | name | number | "(" expression ")"
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E
+};
+
+// Plain lookups would also find inherited names such as "constructor"
+const hasOwn = (record: object, key: string) => Object.prototype.hasOwnProperty.call(record, key);
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'symbol'; value: string };
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\*\*|[-+*/%^(),]))/iy;
+
+const tokenizeExpression = (expression: string): Token[] => {
+  const source = expression.trim();
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < source.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) {
+      throw new Error(`Unexpected character "${source.slice(start).trim()[0]}" in the expression`);
+    }
+    const [, number, name, symbol] = match;
+    if (number !== undefined) {
+      tokens.push({ type: 'number', value: Number(number) });
+    } else if (name !== undefined) {
+      tokens.push({ type: 'name', value: name.toLowerCase() });
+    } else {
+      tokens.push({ type: 'symbol', value: symbol === '**' ? '^' : symbol });
+    }
+  }
+  return tokens;
+};
+
+// Evaluate an arithmetic expression such as "2 * (3 + sqrt(16)) ^ 2"
+export const evaluateExpression = (expression: string): number => {
+  const tokens = tokenizeExpression(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isSymbol = (value: string) => peek()?.type === 'symbol' && peek()?.value === value;
+  const expect = (value: string) => {
+    if (!isSymbol(value)) {
+      throw new Error(`Expected "${value}" in the expression`);
+    }
+    position++;
+  };
+
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = tokens[position++].value;
+      const right = parseTerm();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (isSymbol('*') || isSymbol('/') || isSymbol('%')) {
+      const operator = tokens[position++].value;
+      const right = parseUnary();
+      if (operator === '*') {
+        value *= right;
+      } else if (right === 0) {
+        throw new Error('Division by zero');
+      } else {
+        value = operator === '/' ? value / right : value % right;
+      }
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (isSymbol('-')) {
+      position++;
+      return -parseUnary();
+    }
+    if (isSymbol('+')) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parseCall();
+    if (!isSymbol('^')) return base;
+    position++;
+    return base ** parseUnary();
+  };
+
+  const parseCall = (): number => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new Error('The expression ends too early');
+    }
+
+    if (token.type === 'number') return token.value;
+
+    if (token.type === 'symbol' && token.value === '(') {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+
+    if (token.type === 'name') {
+      if (isSymbol('(')) {
+        const fn = hasOwn(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+        if (!fn) {
+          throw new Error(`Unknown function "${token.value}"`);
+        }
+        position++;
+        const args = [parseExpression()];
+        while (isSymbol(',')) {
+          position++;
+          args.push(parseExpression());
+        }
+        expect(')');
+        return fn(...args);
+      }
+      if (hasOwn(CONSTANTS, token.value)) return CONSTANTS[token.value];
+      throw new Error(`Unknown name "${token.value}"`);
+    }
+
+    throw new Error(`Unexpected "${token.value}" in the expression`);
+  };
+
+  if (tokens.length === 0) {
+    throw new Error('The expression is empty');
+  }
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position].value}" in the expression`);
+  }
+  if (!Number.isFinite(result)) {
+    throw new Error('The result is not a finite number');
+  }
+  return result;
+};
@@ -0,0 +1,14 @@
+// Comparison tabs send every prompt to several models at once
+
+export const MIN_COMPARE_MODELS = 2;
+export const MAX_COMPARE_MODELS = 4;
+
+// Starting models for a new comparison: the selected model and the next ones in the list
+export const defaultCompareModels = (models: string[], selectedModel: string): string[] => {
+  const others = models.filter(model => model !== selectedModel);
+  return [selectedModel, ...others].filter(Boolean).slice(0, MIN_COMPARE_MODELS);
+};
+
+// Keep a usable set of models from saved or imported data
+export const sanitizeCompareModels = (models: string[]): string[] =>
+  [...new Set(models.filter(Boolean))].slice(0, MAX_COMPARE_MODELS);
@@ -0,0 +1,367 @@
+import { pickGenerationStats } from '../services/ollamaService';
+import { CONTEXT_STRATEGIES } from '../services/contextManager';
+import type { ContextStrategy } from '../services/contextManager';
+import type { ModelOptions } from '../services/ollamaService';
+import type { ToolStep } from '../services/toolRegistry';
+import type { Citation, DocumentChunk, KnowledgeBase, TabDocument } from '../services/documentIndex';
+import type { Message, MessageNode, Tab } from '../types/chat';
+import { createId, getActivePath, migrateTab } from './messageTree';
+import { NUMERIC_OPTION_FIELDS } from './modelOptions';
+import { MIN_COMPARE_MODELS, sanitizeCompareModels } from './comparison';
+import { isOutputFormat } from './jsonSchema';
+import { getProvider, isProviderId } from '../services/providers';
+
+export const EXPORT_FORMAT = 'vibed-chat-export';
+export const EXPORT_VERSION = 1;
+
+// Export files carry the chunks of attached documents inside each tab
+type ExportedTab = Omit<Tab, 'knowledge'> & { knowledge?: KnowledgeBase & { chunks: DocumentChunk[] } };
+
+interface ChatExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  tabs: ExportedTab[];
+}
+
+// Imported tabs, with the chunks of their documents keyed by (new) tab ID
+export interface ImportedChats {
+  tabs: Tab[];
+  documentChunks: Record<string, DocumentChunk[]>;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isRole = (value: unknown): value is Message['role'] =>
+  value === 'user' || value === 'assistant';
+
+// Keep only well-formed generation options
+const validateOptions = (value: unknown): ModelOptions | undefined => {
+  if (!isRecord(value)) return undefined;
+
+  const options: ModelOptions = {};
+  NUMERIC_OPTION_FIELDS.forEach(({ key }) => {
+    const option = value[key];
+    if (typeof option === 'number' && Number.isFinite(option)) {
+      options[key] = option;
+    }
+  });
+  if (isStringArray(value.stop)) {
+    options.stop = value.stop;
+  }
+  return options;
+};
+
+// Serialize tabs, including their full branch history, as a versioned JSON document
+export const exportTabsToJson = (tabs: Tab[], documentChunks: Record<string, DocumentChunk[]> = {}): string => {
+  const data: ChatExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    tabs: tabs.map(({ knowledge, ...tab }) => ({
+      ...tab,
+      knowledge: knowledge && { ...knowledge, chunks: documentChunks[tab.id] ?? [] }
+    }))
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+// Render the visible branch of a tab as a readable Markdown transcript
+export const exportTabToMarkdown = (tab: Tab): string => {
+  const lines = [`# ${tab.name}`, ''];
+
+  if (tab.provider) lines.push(`- **Provider:** ${getProvider(tab.provider).label}`);
+  if (tab.compareModels) {
+    lines.push(`- **Comparing:** ${tab.compareModels.join(', ')}`);
+  } else if (tab.model) {
+    lines.push(`- **Model:** ${tab.model}`);
+  }
+  if (tab.knowledge) {
+    lines.push(`- **Documents:** ${tab.knowledge.documents.map(document => document.name).join(', ')}`);
+  }
+  if (tab.createdAt) lines.push(`- **Created:** ${new Date(tab.createdAt).toLocaleString()}`);
+  lines.push(`- **Exported:** ${new Date().toLocaleString()}`, '');
+
+  if (tab.systemPrompt?.trim()) {
+    lines.push('## System prompt', '', tab.systemPrompt.trim(), '');
+  }
+
+  getActivePath(tab).forEach(message => {
+    const speaker = message.role === 'user' ? 'User' : `Assistant${message.model ? ` (${message.model})` : ''}`;
+    lines.push(`## ${speaker}`, `_${new Date(message.createdAt).toLocaleString()}_`, '');
+    if (message.thinking) {
+      lines.push('<details>', '<summary>Thinking</summary>', '', message.thinking, '', '</details>', '');
+    }
+    lines.push(message.content, '');
+    if (message.images?.length) {
+      lines.push(`_(${message.images.length} image${message.images.length === 1 ? '' : 's'} attached)_`, '');
+    }
+    if (message.stopped) {
+      lines.push('_(stopped)_', '');
+    }
+    if (message.error) {
+      lines.push(`_(failed: ${message.error})_`, '');
+    }
+    message.citations?.forEach((citation, index) => {
+      lines.push(`> [${index + 1}] ${citation.documentName}, lines ${citation.startLine}-${citation.endLine}`);
+    });
+    if (message.citations?.length) {
+      lines.push('');
+    }
+  });
+
+  return lines.join('\n');
+};
+
+// Keep the tool steps that have the expected shape; they are only shown, never re-run
+const validateToolSteps = (value: unknown): ToolStep[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const steps = value.flatMap(step =>
+    isRecord(step) && typeof step.name === 'string' && isRecord(step.arguments) && typeof step.result === 'string'
+      ? [{ name: step.name, arguments: step.arguments, result: step.result, isError: step.isError === true || undefined }]
+      : []
+  );
+  return steps.length > 0 ? steps : undefined;
+};
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Keep the citations that have the expected shape
+const validateCitations = (value: unknown): Citation[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const citations = value.flatMap(citation =>
+    isRecord(citation) && typeof citation.documentName === 'string' && typeof citation.text === 'string' &&
+    isNumber(citation.startLine) && isNumber(citation.endLine) && isNumber(citation.score)
+      ? [{
+        documentName: citation.documentName,
+        startLine: citation.startLine,
+        endLine: citation.endLine,
+        text: citation.text,
+        score: citation.score
+      }]
+      : []
+  );
+  return citations.length > 0 ? citations : undefined;
+};
+
+const isTabDocument = (value: unknown): value is TabDocument =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string' &&
+  isNumber(value.size) && isNumber(value.chunkCount) && isNumber(value.addedAt);
+
+const isDocumentChunk = (value: unknown): value is DocumentChunk =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.documentId === 'string' &&
+  typeof value.documentName === 'string' && typeof value.text === 'string' &&
+  isNumber(value.startLine) && isNumber(value.endLine) &&
+  Array.isArray(value.embedding) && value.embedding.every(isNumber);
+
+// Keep attached documents whose chunks all came through intact; a document
+// with missing chunks would silently leave out part of its text
+const validateKnowledge = (value: unknown): { knowledge?: KnowledgeBase; chunks: DocumentChunk[] } => {
+  if (!isRecord(value) || typeof value.embeddingModel !== 'string') return { chunks: [] };
+  if (!Array.isArray(value.documents) || !Array.isArray(value.chunks)) return { chunks: [] };
+
+  const chunks = value.chunks.filter(isDocumentChunk);
+  const documents = value.documents.filter(isTabDocument).filter(document =>
+    chunks.filter(chunk => chunk.documentId === document.id).length === document.chunkCount
+  );
+  const documentIds = new Set(documents.map(document => document.id));
+  return documents.length > 0
+    ? { knowledge: { embeddingModel: value.embeddingModel, documents }, chunks: chunks.filter(chunk => documentIds.has(chunk.documentId)) }
+    : { chunks: [] };
+};
+
+const validateNode = (tabName: string, id: string, value: unknown): MessageNode => {
+  if (!isRecord(value)) {
+    throw new Error(`Message ${id} in "${tabName}" is not an object`);
+  }
+  if (value.id !== id || !isRole(value.role) || typeof value.content !== 'string') {
+    throw new Error(`Message ${id} in "${tabName}" is missing its id, role or content`);
+  }
+  if (value.parentId !== null && typeof value.parentId !== 'string') {
+    throw new Error(`Message ${id} in "${tabName}" has an invalid parent`);
+  }
+  if (!isStringArray(value.childIds)) {
+    throw new Error(`Message ${id} in "${tabName}" has invalid replies`);
+  }
+
+  return {
+    id,
+    role: value.role,
+    content: value.content,
+    parentId: value.parentId,
+    childIds: value.childIds,
+    activeChildId: typeof value.activeChildId === 'string' ? value.activeChildId : undefined,
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : Date.now(),
+    images: isStringArray(value.images) ? value.images : undefined,
+    stopped: value.stopped === true || undefined,
+    error: typeof value.error === 'string' ? value.error : undefined,
+    pinned: value.pinned === true || undefined,
+    model: typeof value.model === 'string' ? value.model : undefined,
+    stats: isRecord(value.stats) ? pickGenerationStats(value.stats) : undefined,
+    toolSteps: validateToolSteps(value.toolSteps),
+    format: isOutputFormat(value.format) ? value.format : undefined,
+    citations: validateCitations(value.citations),
+    thinking: typeof value.thinking === 'string' && value.thinking ? value.thinking : undefined,
+    thinkingDuration: isNumber(value.thinkingDuration) ? value.thinkingDuration : undefined
+  };
+};
+
+// Walk the tree from its first messages and check that every link agrees in
+// both directions and that no message is reached twice, which would mean a
+// cycle. Messages that can't be reached from a root are never shown and are
+// dropped.
+const validateTree = (
+  tabName: string,
+  rootIds: string[],
+  nodes: Record<string, MessageNode>
+): Record<string, MessageNode> => {
+  const reachable: Record<string, MessageNode> = {};
+  const pending = rootIds.map(id => ({ id, parentId: null as string | null }));
+
+  for (let entry = pending.pop(); entry; entry = pending.pop()) {
+    const { id, parentId } = entry;
+    const node = nodes[id];
+    if (reachable[id]) {
+      throw new Error(`"${tabName}" has a message that is reached twice (${id})`);
+    }
+    if (node.parentId !== parentId) {
+      throw new Error(`Message ${id} in "${tabName}" doesn't point back to its parent`);
+    }
+    if (node.activeChildId !== undefined && !node.childIds.includes(node.activeChildId)) {
+      throw new Error(`Message ${id} in "${tabName}" selects a reply it doesn't have`);
+    }
+    reachable[id] = node;
+    pending.push(...node.childIds.map(childId => ({ id: childId, parentId: id })));
+  }
+
+  return reachable;
+};
+
+// A comparison needs at least two distinct models; anything less imports as a plain chat
+const validateCompareModels = (value: unknown): string[] | undefined => {
+  if (!isStringArray(value)) return undefined;
+  const models = sanitizeCompareModels(value);
+  return models.length >= MIN_COMPARE_MODELS ? models : undefined;
+};
+
+// Check a tab against the Tab shape, accepting flat message lists from older
+// versions. The chunks of its documents are returned alongside it.
+const validateTab = (value: unknown, index: number): { tab: Tab; chunks: DocumentChunk[] } => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string') {
+    throw new Error(`Chat #${index + 1} is missing its id or name`);
+  }
+
+  const tabName = value.name;
+  const { knowledge, chunks } = validateKnowledge(value.knowledge);
+  const base: Omit<Tab, 'nodes' | 'rootIds'> = {
+    id: value.id,
+    name: tabName,
+    nameSource: value.nameSource === 'auto' || value.nameSource === 'user' ? value.nameSource : undefined,
+    systemPrompt: typeof value.systemPrompt === 'string' ? value.systemPrompt : '',
+    options: validateOptions(value.options),
+    contextStrategy: CONTEXT_STRATEGIES.some(strategy => strategy.value === value.contextStrategy)
+      ? value.contextStrategy as ContextStrategy
+      : undefined,
+    provider: isProviderId(value.provider) ? value.provider : undefined,
+    model: typeof value.model === 'string' ? value.model : undefined,
+    compareModels: validateCompareModels(value.compareModels),
+    format: isOutputFormat(value.format) ? value.format : undefined,
+    knowledge,
+    think: typeof value.think === 'boolean' ? value.think : undefined,
+    excludeThinking: value.excludeThinking === true || undefined,
+    keepAlive: typeof value.keepAlive === 'string' && value.keepAlive ? value.keepAlive : undefined,
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : undefined,
+    updatedAt: typeof value.updatedAt === 'number' ? value.updatedAt : undefined
+  };
+
+  if (Array.isArray(value.messages) && value.nodes === undefined) {
+    const messages = value.messages.map((message, messageIndex) => {
+      if (!isRecord(message) || !isRole(message.role) || typeof message.content !== 'string') {
+        throw new Error(`Message #${messageIndex + 1} in "${tabName}" is missing its role or content`);
+      }
+      return { role: message.role, content: message.content };
+    });
+    return { tab: migrateTab({ ...base, messages }), chunks };
+  }
+
+  if (!isRecord(value.nodes) || !isStringArray(value.rootIds)) {
+    throw new Error(`"${tabName}" has no messages`);
+  }
+
+  const allNodes: Record<string, MessageNode> = {};
+  Object.entries(value.nodes).forEach(([id, node]) => {
+    allNodes[id] = validateNode(tabName, id, node);
+  });
+
+  // Every link in the tree must point at a message that exists
+  const references = [
+    ...value.rootIds,
+    ...Object.values(allNodes).flatMap(node => [...node.childIds, ...(node.parentId ? [node.parentId] : [])])
+  ];
+  const missing = references.find(id => !allNodes[id]);
+  if (missing) {
+    throw new Error(`"${tabName}" refers to a message that doesn't exist (${missing})`);
+  }
+
+  const nodes = validateTree(tabName, value.rootIds, allNodes);
+  const activeRootId = typeof value.activeRootId === 'string' && value.rootIds.includes(value.activeRootId)
+    ? value.activeRootId
+    : value.rootIds[value.rootIds.length - 1];
+
+  // A summary is only useful while the message it ends at still exists
+  const summary = value.contextSummary;
+  const contextSummary = isRecord(summary) &&
+    typeof summary.content === 'string' &&
+    typeof summary.upToId === 'string' &&
+    nodes[summary.upToId]
+    ? {
+      content: summary.content,
+      upToId: summary.upToId,
+      createdAt: typeof summary.createdAt === 'number' ? summary.createdAt : Date.now()
+    }
+    : undefined;
+
+  return { tab: { ...base, nodes, rootIds: value.rootIds, activeRootId, contextSummary }, chunks };
+};
+
+// Parse an export file and return its tabs, ready to be appended to the
+// existing ones: tab IDs that are already taken get fresh ones
+export const importTabsFromJson = (text: string, existingTabs: Tab[]): ImportedChats => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.format !== EXPORT_FORMAT || !Array.isArray(data.tabs)) {
+    throw new Error('The file is not a Vibed chat export');
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new Error(`Unsupported export version: ${String(data.version)}`);
+  }
+
+  const usedIds = new Set(existingTabs.map(tab => tab.id));
+  const usedNames = new Set(existingTabs.map(tab => tab.name));
+
+  const documentChunks: Record<string, DocumentChunk[]> = {};
+  const tabs = data.tabs.map((value, index) => {
+    const { tab, chunks } = validateTab(value, index);
+
+    const id = usedIds.has(tab.id) ? createId('tab') : tab.id;
+    const name = usedNames.has(tab.name) ? `${tab.name} (imported)` : tab.name;
+    usedIds.add(id);
+    usedNames.add(name);
+
+    if (tab.knowledge) documentChunks[id] = chunks;
+    return { ...tab, id, name };
+  });
+  return { tabs, documentChunks };
+};
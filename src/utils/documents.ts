@@ -0,0 +1,92 @@
+// Reading and chunking of text documents attached to a tab for retrieval
+
+export const MAX_DOCUMENT_BYTES = 2 * 1000 * 1000;
+
+// Text formats accepted besides text/* MIME types, which browsers often
+// leave empty for code and config files
+export const ACCEPTED_DOCUMENT_EXTENSIONS = [
+  '.txt', '.md', '.markdown', '.rst', '.log', '.csv', '.tsv', '.json', '.jsonl', '.yaml', '.yml', '.toml',
+  '.ini', '.xml', '.html', '.css', '.js', '.jsx', '.ts', '.tsx', '.py', '.java', '.kt', '.c', '.h', '.cpp',
+  '.hpp', '.cs', '.go', '.rs', '.rb', '.php', '.swift', '.sh', '.sql'
+];
+
+// Chunks are cut at line breaks where possible, up to this many characters,
+// and repeat the end of the previous chunk so sentences aren't cut off
+const CHUNK_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 200;
+
+// A piece of a document, with its 1-based line range for citations
+export interface TextChunk {
+  text: string;
+  startLine: number;
+  endLine: number;
+}
+
+export const isDocumentFile = (file: File): boolean => {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  return file.type.startsWith('text/') || ACCEPTED_DOCUMENT_EXTENSIONS.includes(extension);
+};
+
+// Read a document as text, rejecting files that are too large or binary
+export const readDocumentFile = async (file: File): Promise<string> => {
+  if (!isDocumentFile(file)) {
+    throw new Error(`${file.name} is not a text, Markdown or code file`);
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_DOCUMENT_BYTES / 1000 / 1000} MB`);
+  }
+
+  const text = await file.text();
+  if (text.includes('\u0000')) {
+    throw new Error(`${file.name} looks like a binary file`);
+  }
+  if (!text.trim()) {
+    throw new Error(`${file.name} is empty`);
+  }
+  return text;
+};
+
+// Split text into overlapping chunks of whole lines. Lines longer than a
+// chunk are split on their own.
+export const chunkText = (text: string): TextChunk[] => {
+  const segments = text.split(/\r?\n/).flatMap((line, index) => {
+    const pieces = line.length > CHUNK_CHARS
+      ? Array.from({ length: Math.ceil(line.length / CHUNK_CHARS) }, (_, piece) =>
+        line.slice(piece * CHUNK_CHARS, (piece + 1) * CHUNK_CHARS))
+      : [line];
+    return pieces.map(piece => ({ text: piece, line: index + 1 }));
+  });
+
+  const chunks: TextChunk[] = [];
+  let start = 0;
+  while (start < segments.length) {
+    // Take whole segments until the chunk is full
+    let end = start;
+    let length = 0;
+    while (end < segments.length && (end === start || length + segments[end].text.length + 1 <= CHUNK_CHARS)) {
+      length += segments[end].text.length + 1;
+      end++;
+    }
+
+    const chunkSegments = segments.slice(start, end);
+    const content = chunkSegments.map(segment => segment.text).join('\n').trim();
+    if (content) {
+      chunks.push({
+        text: content,
+        startLine: chunkSegments[0].line,
+        endLine: chunkSegments[chunkSegments.length - 1].line
+      });
+    }
+    if (end >= segments.length) break;
+
+    // Step back over the overlap, but always move forward
+    let next = end;
+    let overlap = 0;
+    while (next - 1 > start && overlap + segments[next - 1].text.length <= CHUNK_OVERLAP_CHARS) {
+      next--;
+      overlap += segments[next].text.length + 1;
+    }
+    start = next;
+  }
+  return chunks;
+};
@@ -0,0 +1,18 @@
+// Save generated text as a file through a temporary object URL
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+};
+
+// Turn a tab name into something safe to use as a file name
+export const toFileName = (name: string) =>
+  name.trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'chat';
@@ -0,0 +1,25 @@
+// Human-readable byte size, e.g. 4.7 GB
+export const formatBytes = (bytes: number): string => {
+  if (!Number.isFinite(bytes) || bytes <= 0) return '0 B';
+
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const exponent = Math.min(Math.floor(Math.log(bytes) / Math.log(1000)), units.length - 1);
+  const value = bytes / 1000 ** exponent;
+  return `${value.toFixed(value >= 100 || exponent === 0 ? 0 : 1)} ${units[exponent]}`;
+};
+
+// Local date and time, or the raw value if it can't be parsed
+export const formatDate = (value: string | number): string => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? String(value) : date.toLocaleString();
+};
+
+// Compact token count, e.g. 812 or 12.3k
+export const formatTokenCount = (count: number): string =>
+  count >= 1000 ? `${(count / 1000).toFixed(count >= 10000 ? 0 : 1)}k` : String(count);
+
+// Duration reported by Ollama (in nanoseconds) as seconds, e.g. 1.4 s
+export const formatDuration = (nanoseconds: number): string => {
+  const seconds = nanoseconds / 1e9;
+  return `${seconds.toFixed(seconds < 10 ? 1 : 0)} s`;
+};
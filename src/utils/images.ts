@@ -0,0 +1,36 @@
+// Limits for images attached to a message
+export const MAX_IMAGE_BYTES = 5 * 1000 * 1000;
+export const MAX_IMAGES_PER_MESSAGE = 4;
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Read an image file as the bare base64 string Ollama expects in `images`
+export const readImageFile = (file: File): Promise<string> => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return Promise.reject(new Error(`${file.name || 'File'} is not a PNG, JPEG or WebP image`));
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return Promise.reject(new Error(`${file.name || 'Image'} is larger than ${MAX_IMAGE_BYTES / 1000 / 1000} MB`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result);
+      resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+};
+
+// Base64 images are stored without a MIME type, so sniff it from the first bytes
+export const imageDataUrl = (base64: string): string => {
+  const mimeType = base64.startsWith('/9j/')
+    ? 'image/jpeg'
+    : base64.startsWith('UklGR')
+      ? 'image/webp'
+      : base64.startsWith('R0lGOD')
+        ? 'image/gif'
+        : 'image/png';
+  return `data:${mimeType};base64,${base64}`;
+};
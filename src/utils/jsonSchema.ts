@@ -0,0 +1,161 @@
+// Structured output: the JSON format a reply must follow, and a validator for
+// the subset of JSON Schema that Ollama's format field understands
+
+export type JsonSchema = Record<string, unknown>;
+
+// Sent as Ollama's format field: any JSON, or JSON matching a schema
+export type OutputFormat = 'json' | JsonSchema;
+
+export interface SchemaError {
+  path: string; // JSON Pointer to the offending value, '' for the root
+  message: string;
+}
+
+// Types offered when building a schema field by field
+export const SCHEMA_FIELD_TYPES = ['string', 'number', 'integer', 'boolean', 'array', 'object'] as const;
+export type SchemaFieldType = typeof SCHEMA_FIELD_TYPES[number];
+
+export interface SchemaField {
+  name: string;
+  type: SchemaFieldType;
+  required: boolean;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const escapePointer = (key: string) => key.replace(/~/g, '~0').replace(/\//g, '~1');
+
+// Check a value against a schema, collecting every problem rather than
+// stopping at the first. Supports type, enum, const, properties, required,
+// additionalProperties, items, min/max (Length, Items, imum), pattern and anyOf/oneOf.
+export const validateJson = (value: unknown, schema: JsonSchema, path = ''): SchemaError[] => {
+  const errors: SchemaError[] = [];
+  const fail = (message: string, at = path) => errors.push({ path: at, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type.map(String) : [String(schema.type)];
+    if (!types.some(type => matchesType(value, type))) {
+      fail(`Expected ${types.join(' or ')}, got ${typeOf(value) === 'integer' ? 'number' : typeOf(value)}`);
+      return errors;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    fail(`Must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    fail(`Must be ${JSON.stringify(schema.const)}`);
+  }
+
+  const alternatives = Array.isArray(schema.anyOf) ? schema.anyOf : Array.isArray(schema.oneOf) ? schema.oneOf : null;
+  if (alternatives) {
+    const matching = alternatives.filter(option => isObject(option) && validateJson(value, option, path).length === 0);
+    if (matching.length === 0) {
+      fail('Matches none of the allowed shapes');
+    } else if (schema.oneOf && matching.length > 1) {
+      fail('Matches more than one of the allowed shapes');
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      fail(`Must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      fail(`Must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) {
+          fail(`Must match the pattern ${schema.pattern}`);
+        }
+      } catch {
+        // An invalid pattern in the schema isn't the reply's fault
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) fail(`Must be at least ${schema.minimum}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) fail(`Must be at most ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      fail(`Must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      fail(`Must have at most ${schema.maxItems} items`);
+    }
+    if (isObject(schema.items)) {
+      const itemSchema = schema.items;
+      value.forEach((item, index) => errors.push(...validateJson(item, itemSchema, `${path}/${index}`)));
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = isObject(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      schema.required
+        .filter(key => typeof key === 'string' && !(key in value))
+        .forEach(key => fail(`Missing required property "${key}"`));
+    }
+    Object.entries(value).forEach(([key, propertyValue]) => {
+      const propertyPath = `${path}/${escapePointer(key)}`;
+      const propertySchema = properties[key];
+      if (isObject(propertySchema)) {
+        errors.push(...validateJson(propertyValue, propertySchema, propertyPath));
+      } else if (schema.additionalProperties === false) {
+        fail(`Unexpected property "${key}"`, propertyPath);
+      } else if (isObject(schema.additionalProperties)) {
+        errors.push(...validateJson(propertyValue, schema.additionalProperties, propertyPath));
+      }
+    });
+  }
+
+  return errors;
+};
+
+// Parse schema text typed or pasted by the user
+export const parseSchema = (text: string): { schema?: JsonSchema; error?: string } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { error: `Not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  if (!isObject(parsed)) {
+    return { error: 'The schema must be a JSON object' };
+  }
+  return { schema: parsed };
+};
+
+// Schema for an object with the given fields
+export const buildSchema = (fields: SchemaField[]): JsonSchema => {
+  const named = fields.filter(field => field.name.trim());
+  return {
+    type: 'object',
+    properties: Object.fromEntries(named.map(field => [
+      field.name.trim(),
+      field.type === 'array' ? { type: 'array', items: { type: 'string' } } : { type: field.type }
+    ])),
+    required: named.filter(field => field.required).map(field => field.name.trim())
+  };
+};
+
+// Check a saved or imported format value
+export const isOutputFormat = (value: unknown): value is OutputFormat =>
+  value === 'json' || isObject(value);
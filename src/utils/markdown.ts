@@ -0,0 +1,76 @@
+import { Marked } from 'marked';
+import type { Tokens } from 'marked';
+import DOMPurify from 'dompurify';
+import hljs from 'highlight.js/lib/common';
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Highlight a code block, skipping auto-detection for unknown languages
+// because it is too slow to run on every streamed chunk
+const highlightCode = (code: string, language: string) => {
+  if (language && hljs.getLanguage(language)) {
+    return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+  }
+  return escapeHtml(code);
+};
+
+const markdown = new Marked({
+  gfm: true,
+  breaks: true,
+  renderer: {
+    // Wrap fenced code in a header with the language and a copy button
+    code({ text, lang }: Tokens.Code) {
+      const language = (lang || '').trim().split(/\s+/)[0].toLowerCase();
+      return [
+        '<div class="code-block">',
+        '<div class="code-block-header">',
+        `<span class="code-block-language">${escapeHtml(language || 'text')}</span>`,
+        '<button type="button" class="code-copy-button">Copy</button>',
+        '</div>',
+        `<pre><code class="hljs">${highlightCode(text, language)}</code></pre>`,
+        '</div>'
+      ].join('');
+    }
+  }
+});
+
+// Render Markdown to sanitized HTML
+export const renderMarkdown = (content: string): string =>
+  DOMPurify.sanitize(markdown.parse(content, { async: false }));
+
+// Create a function that splits Markdown into top-level blocks (paragraphs,
+// lists, code fences...). While a reply streams in, only the last block can
+// still change, so earlier blocks are reused instead of being lexed again.
+export const createMarkdownBlockSplitter = () => {
+  let previousContent = '';
+  let previousBlocks: { type: string; raw: string }[] = [];
+
+  return (rawContent: string): string[] => {
+    const content = rawContent.replace(/\r\n?/g, '\n');
+
+    // Trailing blank lines can still join the last block, so it stays open too
+    let stableCount = 0;
+    if (content.startsWith(previousContent)) {
+      stableCount = previousBlocks.length;
+      while (stableCount > 0 && previousBlocks[stableCount - 1].type === 'space') {
+        stableCount--;
+      }
+      stableCount = Math.max(0, stableCount - 1);
+    }
+    const stableBlocks = previousBlocks.slice(0, stableCount);
+
+    const offset = stableBlocks.reduce((length, block) => length + block.raw.length, 0);
+    const newBlocks = markdown.lexer(content.slice(offset)).map(({ type, raw }) => ({ type, raw }));
+
+    previousContent = content;
+    previousBlocks = [...stableBlocks, ...newBlocks];
+    return previousBlocks
+      .filter(block => block.type !== 'space')
+      .map(block => block.raw);
+  };
+};
@@ -0,0 +1,140 @@
+import type { Message, MessageNode, Tab } from '../types/chat';
+
+// Tabs saved before conversations became trees kept a flat message list
+type LegacyTab = Omit<Tab, 'nodes' | 'rootIds'> & Partial<Pick<Tab, 'nodes' | 'rootIds'>> & {
+  messages?: Message[];
+};
+
+export const createId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// IDs of a node and its alternative versions, in creation order
+export const getSiblingIds = (tab: Tab, node: MessageNode): string[] =>
+  node.parentId ? tab.nodes[node.parentId]?.childIds ?? [] : tab.rootIds;
+
+// Follow the selected branch from the root down to the newest message.
+// Both walks stop at a message they have seen, so a damaged tree can't hang them.
+export const getActivePath = (tab: Tab): MessageNode[] => {
+  const path: MessageNode[] = [];
+  const visited = new Set<string>();
+  let node = tab.activeRootId ? tab.nodes[tab.activeRootId] : undefined;
+
+  while (node && !visited.has(node.id)) {
+    visited.add(node.id);
+    path.push(node);
+    node = node.activeChildId ? tab.nodes[node.activeChildId] : undefined;
+  }
+
+  return path;
+};
+
+// Path from the root down to (and including) a specific node
+export const getPathTo = (tab: Tab, nodeId: string): MessageNode[] => {
+  const path: MessageNode[] = [];
+  const visited = new Set<string>();
+  let node: MessageNode | undefined = tab.nodes[nodeId];
+
+  while (node && !visited.has(node.id)) {
+    visited.add(node.id);
+    path.unshift(node);
+    node = node.parentId ? tab.nodes[node.parentId] : undefined;
+  }
+
+  return path;
+};
+
+// Add a message below parentId (or as a new first message) and select it
+export const appendMessage = (
+  tab: Tab,
+  parentId: string | null,
+  message: Message,
+  id = createId('msg')
+): Tab => {
+  const node: MessageNode = {
+    ...message,
+    id,
+    parentId,
+    childIds: [],
+    createdAt: Date.now()
+  };
+  const nodes = { ...tab.nodes, [id]: node };
+
+  if (!parentId) {
+    return { ...tab, nodes, rootIds: [...tab.rootIds, id], activeRootId: id };
+  }
+
+  const parent = tab.nodes[parentId];
+  if (!parent) return tab;
+
+  nodes[parentId] = { ...parent, childIds: [...parent.childIds, id], activeChildId: id };
+  return { ...tab, nodes };
+};
+
+export const updateNode = (tab: Tab, nodeId: string, patch: Partial<Message>): Tab => {
+  const node = tab.nodes[nodeId];
+  if (!node) return tab;
+  return { ...tab, nodes: { ...tab.nodes, [nodeId]: { ...node, ...patch } } };
+};
+
+// Make a node the visible version among its siblings, and make sure every
+// ancestor points at it so the node ends up on the active path
+export const selectBranch = (tab: Tab, nodeId: string): Tab => {
+  let node: MessageNode | undefined = tab.nodes[nodeId];
+  if (!node) return tab;
+
+  const nodes = { ...tab.nodes };
+  let activeRootId = tab.activeRootId;
+
+  while (node) {
+    if (!node.parentId) {
+      activeRootId = node.id;
+      break;
+    }
+    const parent: MessageNode = nodes[node.parentId];
+    nodes[parent.id] = { ...parent, activeChildId: node.id };
+    node = parent;
+  }
+
+  return { ...tab, nodes, activeRootId };
+};
+
+// Convert a flat message list into a single-branch tree
+export const migrateTab = (tab: LegacyTab): Tab => {
+  const { messages, ...rest } = tab;
+  if (tab.nodes && tab.rootIds) {
+    return rest as Tab;
+  }
+
+  let migrated: Tab = { ...rest, nodes: {}, rootIds: [] };
+  let parentId: string | null = null;
+  (messages ?? []).forEach(message => {
+    const id = createId('msg');
+    migrated = appendMessage(migrated, parentId, message, id);
+    parentId = id;
+  });
+
+  return migrated;
+};
+
+// Remove a message that has no replies, selecting its newest remaining sibling
+export const removeLeaf = (tab: Tab, nodeId: string): Tab => {
+  const node = tab.nodes[nodeId];
+  if (!node || node.childIds.length > 0) return tab;
+
+  const nodes = { ...tab.nodes };
+  delete nodes[nodeId];
+
+  if (!node.parentId) {
+    const rootIds = tab.rootIds.filter(id => id !== nodeId);
+    const activeRootId = tab.activeRootId === nodeId ? rootIds[rootIds.length - 1] : tab.activeRootId;
+    return { ...tab, nodes, rootIds, activeRootId };
+  }
+
+  const parent = nodes[node.parentId];
+  if (parent) {
+    const childIds = parent.childIds.filter(id => id !== nodeId);
+    const activeChildId = parent.activeChildId === nodeId ? childIds[childIds.length - 1] : parent.activeChildId;
+    nodes[parent.id] = { ...parent, childIds, activeChildId };
+  }
+  return { ...tab, nodes };
+};
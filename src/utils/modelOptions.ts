@@ -0,0 +1,117 @@
+import type { ModelOptions } from '../services/ollamaService';
+
+type NumericOption = Exclude<keyof ModelOptions, 'stop'>;
+
+interface NumericOptionField {
+  key: NumericOption;
+  label: string;
+  hint: string;
+  min?: number;
+  max?: number;
+  step: number;
+  integer?: boolean;
+}
+
+// Numeric options shown in the settings drawer, in display order
+export const NUMERIC_OPTION_FIELDS: NumericOptionField[] = [
+  { key: 'temperature', label: 'Temperature', hint: 'Higher values give more creative answers', min: 0, max: 2, step: 0.05 },
+  { key: 'top_p', label: 'Top P', hint: 'Nucleus sampling cutoff', min: 0, max: 1, step: 0.05 },
+  { key: 'top_k', label: 'Top K', hint: 'Sample from the K most likely tokens', min: 0, step: 1, integer: true },
+  { key: 'repeat_penalty', label: 'Repeat penalty', hint: 'Penalize repeated tokens', min: 0, max: 2, step: 0.05 },
+  { key: 'num_ctx', label: 'Context size', hint: 'Tokens the model can see (num_ctx)', min: 1, step: 1, integer: true },
+  { key: 'num_predict', label: 'Max tokens', hint: '-1 for no limit, -2 to fill the context', min: -2, step: 1, integer: true },
+  { key: 'seed', label: 'Seed', hint: 'Set for reproducible output', step: 1, integer: true }
+];
+
+// Context size Ollama uses when neither the request nor the Modelfile sets num_ctx
+export const DEFAULT_CONTEXT_SIZE = 4096;
+
+// How long Ollama keeps a model loaded after a reply, as sent in keep_alive.
+// A negative duration keeps it loaded until the server stops.
+export const KEEP_ALIVE_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: '0s', label: 'Unload right after each reply' },
+  { value: '5m', label: '5 minutes' },
+  { value: '30m', label: '30 minutes' },
+  { value: '1h', label: '1 hour' },
+  { value: '4h', label: '4 hours' },
+  { value: '-1m', label: 'Until the server stops' }
+];
+
+// Editable form of ModelOptions: every field as the text the user typed
+export type ModelOptionsDraft = Record<keyof ModelOptions, string>;
+
+export type ModelOptionsErrors = Partial<Record<keyof ModelOptions, string>>;
+
+export const toDraft = (options: ModelOptions = {}): ModelOptionsDraft => ({
+  temperature: options.temperature?.toString() ?? '',
+  top_p: options.top_p?.toString() ?? '',
+  top_k: options.top_k?.toString() ?? '',
+  repeat_penalty: options.repeat_penalty?.toString() ?? '',
+  num_ctx: options.num_ctx?.toString() ?? '',
+  num_predict: options.num_predict?.toString() ?? '',
+  seed: options.seed?.toString() ?? '',
+  stop: (options.stop ?? []).join('\n')
+});
+
+// Validate a draft and convert it to options; empty fields are left to the model
+export const parseDraft = (draft: ModelOptionsDraft): { options: ModelOptions; errors: ModelOptionsErrors } => {
+  const options: ModelOptions = {};
+  const errors: ModelOptionsErrors = {};
+
+  NUMERIC_OPTION_FIELDS.forEach(({ key, label, min, max, integer }) => {
+    const raw = draft[key].trim();
+    if (!raw) return;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value)) {
+      errors[key] = `${label} must be a number`;
+    } else if (integer && !Number.isInteger(value)) {
+      errors[key] = `${label} must be a whole number`;
+    } else if (min !== undefined && value < min) {
+      errors[key] = `${label} must be at least ${min}`;
+    } else if (max !== undefined && value > max) {
+      errors[key] = `${label} must be at most ${max}`;
+    } else {
+      options[key] = value;
+    }
+  });
+
+  // One stop sequence per line
+  const stop = draft.stop.split('\n').filter(line => line.length > 0);
+  if (stop.length > 0) {
+    options.stop = stop;
+  }
+
+  return { options, errors };
+};
+
+const NUMERIC_OPTION_KEYS = new Set<string>(NUMERIC_OPTION_FIELDS.map(field => field.key));
+
+// Parse the "parameters" text from /api/show into options,
+// e.g. 'temperature 0.6\nstop "<|eot_id|>"'
+export const parseModelParameters = (parameters = ''): ModelOptions => {
+  const options: ModelOptions = {};
+
+  parameters.split('\n').forEach(line => {
+    const match = line.trim().match(/^(\S+)\s+(.+)$/);
+    if (!match) return;
+
+    const [, key, rawValue] = match;
+    if (key === 'stop') {
+      let value = rawValue.trim();
+      try {
+        value = value.startsWith('"') ? JSON.parse(value) : value;
+      } catch {
+        // Keep the raw text if it isn't a valid quoted string
+      }
+      options.stop = [...(options.stop ?? []), value];
+    } else if (NUMERIC_OPTION_KEYS.has(key)) {
+      const value = Number(rawValue);
+      if (Number.isFinite(value)) {
+        options[key as NumericOption] = value;
+      }
+    }
+  });
+
+  return options;
+};
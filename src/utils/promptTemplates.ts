@@ -0,0 +1,18 @@
+// Saved prompts with {{variable}} placeholders, filled in before sending
+
+// {{name}}, allowing spaces inside the braces: {{ name }}
+const VARIABLE_PATTERN = /\{\{\s*([\w][\w -]*?)\s*\}\}/g;
+
+// Names of the variables in a prompt, in order of first use
+export const extractVariables = (template: string): string[] =>
+  [...new Set(Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1]))];
+
+// Replace each variable with its value; variables without a value are left as typed
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+  );
+
+// Name a prompt is typed as after the slash, e.g. "Write tests" -> "write-tests"
+export const toCommandName = (name: string) =>
+  name.trim().toLowerCase().replace(/[^\w]+/g, '-').replace(/^-+|-+$/g, '');
@@ -0,0 +1,47 @@
+// Retrying of requests that failed for transient reasons
+
+export interface RetryOptions {
+  retries: number; // Attempts after the first one
+  baseDelayMs: number; // Delay before the first retry; doubles for each one after
+  signal?: AbortSignal; // Stops waiting and gives up when aborted
+  shouldRetry: (error: unknown) => boolean;
+  // Called before waiting for each retry, with the 1-based retry number
+  onRetry?: (retry: number, delayMs: number, error: unknown) => void;
+}
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+// Resolve after ms, or reject with an AbortError as soon as the signal fires
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Run task, retrying with exponential backoff while shouldRetry accepts the error
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let retry = 1; ; retry++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (retry > options.retries || options.signal?.aborted || !options.shouldRetry(error)) {
+        throw error;
+      }
+      const delayMs = options.baseDelayMs * 2 ** (retry - 1);
+      options.onRetry?.(retry, delayMs, error);
+      await wait(delayMs, options.signal);
+    }
+  }
+};
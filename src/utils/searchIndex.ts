@@ -0,0 +1,198 @@
+import type { Message, MessageNode, Tab } from '../types/chat';
+
+// Piece of a result snippet; matching words are flagged for highlighting
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  tabId: string;
+  tabName: string;
+  nodeId: string;
+  role: Message['role'];
+  snippet: SnippetPart[];
+  score: number;
+}
+
+interface IndexedMessage {
+  tabId: string;
+  node: MessageNode;
+  termCounts: Map<string, number>;
+  length: number; // Number of terms
+}
+
+// Characters of context shown on each side of the first match
+const SNIPPET_CONTEXT = 60;
+
+// BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(WORD_PATTERN) ?? []);
+
+const countTerms = (terms: string[]) => {
+  const counts = new Map<string, number>();
+  terms.forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+  return counts;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Cut a window around the first match and split it into highlighted parts
+const buildSnippet = (content: string, terms: string[]): SnippetPart[] => {
+  const text = content.replace(/\s+/g, ' ').trim();
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'giu');
+
+  const firstMatch = text.search(pattern);
+  const start = Math.max(0, firstMatch - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, Math.max(firstMatch, 0) + SNIPPET_CONTEXT * 2);
+  const window = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+
+  return window
+    .split(pattern)
+    .filter(part => part.length > 0)
+    .map(part => ({ text: part, match: terms.some(term => part.toLowerCase() === term) }));
+};
+
+// Node IDs are only unique within a tab (imports keep them), so messages
+// are keyed by both
+const messageKey = (tabId: string, nodeId: string) => `${tabId}/${nodeId}`;
+
+// Full-text index over the messages of every tab. Tabs and nodes are
+// immutable, so update() only re-indexes objects that were replaced.
+export const createSearchIndex = () => {
+  const messages = new Map<string, IndexedMessage>(); // By message key
+  const postings = new Map<string, Set<string>>(); // Term -> message keys
+  const indexedTabs = new Map<string, { tab: Tab; keys: Set<string> }>();
+  let totalLength = 0;
+
+  const removeMessage = (key: string) => {
+    const message = messages.get(key);
+    if (!message) return;
+
+    message.termCounts.forEach((_count, term) => {
+      const keys = postings.get(term);
+      keys?.delete(key);
+      if (keys?.size === 0) postings.delete(term);
+    });
+    totalLength -= message.length;
+    messages.delete(key);
+  };
+
+  const addMessage = (key: string, tabId: string, node: MessageNode) => {
+    const terms = tokenize(node.content);
+    const termCounts = countTerms(terms);
+    termCounts.forEach((_count, term) => {
+      const keys = postings.get(term) ?? new Set<string>();
+      keys.add(key);
+      postings.set(term, keys);
+    });
+    messages.set(key, { tabId, node, termCounts, length: terms.length });
+    totalLength += terms.length;
+  };
+
+  const indexTab = (tab: Tab) => {
+    const previous = indexedTabs.get(tab.id);
+    if (previous?.tab === tab) return;
+
+    const keys = new Set(Object.keys(tab.nodes).map(nodeId => messageKey(tab.id, nodeId)));
+    previous?.keys.forEach(key => {
+      if (!keys.has(key)) removeMessage(key);
+    });
+    Object.values(tab.nodes).forEach(node => {
+      const key = messageKey(tab.id, node.id);
+      if (messages.get(key)?.node === node) return;
+      removeMessage(key);
+      addMessage(key, tab.id, node);
+    });
+    indexedTabs.set(tab.id, { tab, keys });
+  };
+
+  // Messages containing a term, or any term starting with it when it's the
+  // word still being typed
+  const findMatches = (term: string, isPrefix: boolean): Map<string, number> => {
+    const matches = new Map<string, number>(); // Message key -> term frequency
+    const addPostings = (indexedTerm: string) => {
+      postings.get(indexedTerm)?.forEach(key => {
+        const count = messages.get(key)?.termCounts.get(indexedTerm) ?? 0;
+        matches.set(key, (matches.get(key) ?? 0) + count);
+      });
+    };
+
+    if (isPrefix) {
+      postings.forEach((_nodeIds, indexedTerm) => {
+        if (indexedTerm.startsWith(term)) addPostings(indexedTerm);
+      });
+    } else {
+      addPostings(term);
+    }
+    return matches;
+  };
+
+  return {
+    // Bring the index in line with the current tabs
+    update(tabs: Tab[]) {
+      const tabIds = new Set(tabs.map(tab => tab.id));
+      indexedTabs.forEach((entry, tabId) => {
+        if (tabIds.has(tabId)) return;
+        entry.keys.forEach(removeMessage);
+        indexedTabs.delete(tabId);
+      });
+      tabs.forEach(indexTab);
+    },
+
+    // Messages containing every word of the query, best matches first
+    search(query: string, limit = 50): SearchResult[] {
+      const terms = [...new Set(tokenize(query))];
+      if (terms.length === 0 || messages.size === 0) return [];
+
+      const endsInWord = /[\p{L}\p{N}_]$/u.test(query);
+      const averageLength = totalLength / messages.size || 1;
+      const scores = new Map<string, number>();
+
+      for (const [index, term] of terms.entries()) {
+        const matches = findMatches(term, endsInWord && index === terms.length - 1);
+        const idf = Math.log(1 + (messages.size - matches.size + 0.5) / (matches.size + 0.5));
+
+        // Keep only messages that matched every earlier term
+        const nextScores = new Map<string, number>();
+        matches.forEach((frequency, key) => {
+          if (index > 0 && !scores.has(key)) return;
+          const length = messages.get(key)?.length ?? 0;
+          const termScore = idf * (frequency * (K1 + 1)) /
+            (frequency + K1 * (1 - B + B * length / averageLength));
+          nextScores.set(key, (scores.get(key) ?? 0) + termScore);
+        });
+        scores.clear();
+        nextScores.forEach((score, key) => scores.set(key, score));
+        if (scores.size === 0) return [];
+      }
+
+      const phrase = query.trim().toLowerCase();
+      return [...scores.entries()]
+        .flatMap(([key, score]) => {
+          const message = messages.get(key);
+          if (!message) return [];
+          // Exact phrase matches rank above scattered words
+          const phraseBonus = terms.length > 1 && message.node.content.toLowerCase().includes(phrase) ? 2 : 0;
+          return [{ message, score: score + phraseBonus }];
+        })
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ message: { tabId, node }, score }) => ({
+          tabId,
+          tabName: indexedTabs.get(tabId)?.tab.name ?? '',
+          nodeId: node.id,
+          role: node.role,
+          snippet: buildSnippet(node.content, terms),
+          score
+        }));
+    }
+  };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
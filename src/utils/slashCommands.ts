@@ -0,0 +1,69 @@
+import type { SavedPrompt } from '../types/chat';
+import { toCommandName } from './promptTemplates';
+
+// Slash commands typed at the start of the chat input
+
+export type BuiltInCommandName = 'model' | 'new' | 'clear' | 'system' | 'export';
+
+export interface BuiltInCommand {
+  name: BuiltInCommandName;
+  usage: string; // Shown in the menu, e.g. "/model <name>"
+  description: string;
+  takesArgument: boolean;
+}
+
+export const BUILT_IN_COMMANDS: BuiltInCommand[] = [
+  { name: 'model', usage: '/model <name>', description: 'Switch this chat to another model', takesArgument: true },
+  { name: 'new', usage: '/new', description: 'Start a new chat', takesArgument: false },
+  { name: 'clear', usage: '/clear', description: 'Remove every message from this chat', takesArgument: false },
+  { name: 'system', usage: '/system <prompt>', description: 'Set this chat\'s system prompt (empty to remove it)', takesArgument: true },
+  { name: 'export', usage: '/export [markdown|json]', description: 'Download this chat', takesArgument: true }
+];
+
+export const EXPORT_FORMATS = ['markdown', 'json'] as const;
+
+// An entry in the autocomplete menu
+export type SlashSuggestion =
+  | { kind: 'command'; command: BuiltInCommand }
+  | { kind: 'prompt'; prompt: SavedPrompt }
+  | { kind: 'argument'; command: BuiltInCommandName; value: string };
+
+// Most entries the menu shows at once
+const MAX_SUGGESTIONS = 8;
+
+// Split "/name argument" into its parts. The argument is undefined until a
+// space follows the name; nothing is returned for input that isn't a command.
+export const parseSlashInput = (input: string): { name: string; argument?: string } | null => {
+  const match = input.match(/^\/([\w-]*)(?:\s([\s\S]*))?$/);
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), argument: match[2]?.trim() };
+};
+
+export const findBuiltInCommand = (name: string): BuiltInCommand | undefined =>
+  BUILT_IN_COMMANDS.find(command => command.name === name);
+
+// Menu entries for what has been typed so far: commands and prompts while
+// the name is typed, then values for the command's argument
+export const getSlashSuggestions = (input: string, prompts: SavedPrompt[], models: string[]): SlashSuggestion[] => {
+  const parsed = parseSlashInput(input);
+  if (!parsed) return [];
+
+  if (parsed.argument !== undefined) {
+    const query = parsed.argument.toLowerCase();
+    const values = parsed.name === 'model' ? models : parsed.name === 'export' ? [...EXPORT_FORMATS] : [];
+    // Once a value is typed out in full, Enter runs the command with it
+    if (values.includes(parsed.argument)) return [];
+    return values
+      .filter(value => value.toLowerCase().includes(query))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(value => ({ kind: 'argument', command: parsed.name as BuiltInCommandName, value }));
+  }
+
+  const commands: SlashSuggestion[] = BUILT_IN_COMMANDS
+    .filter(command => command.name.startsWith(parsed.name))
+    .map(command => ({ kind: 'command', command }));
+  const matchingPrompts: SlashSuggestion[] = prompts
+    .filter(prompt => toCommandName(prompt.name).includes(parsed.name))
+    .map(prompt => ({ kind: 'prompt', prompt }));
+  return [...matchingPrompts, ...commands].slice(0, MAX_SUGGESTIONS);
+};
@@ -0,0 +1,166 @@
+import type { MessageNode, Tab } from '../types/chat';
+
+// Three-way merge of a tab edited in two windows at once. Messages from both
+// sides are kept; a setting or message changed differently on both sides is
+// a conflict, resolved the same way in both windows so they end up equal.
+
+export interface MergeConflict {
+  key: string; // "tab.<field>" or "node.<id>"
+  label: string; // What changed, for the user
+}
+
+export interface MergeOptions {
+  remoteWins: boolean; // Which side a conflict goes to
+  keepLocal?: Set<string>; // Messages this window is generating
+  keepRemote?: Set<string>; // Messages the other window is generating
+}
+
+// Fields handled separately from the field-by-field merge
+const STRUCTURE_FIELDS = new Set(['nodes', 'rootIds', 'activeRootId', 'revision', 'updatedAt']);
+const NODE_STRUCTURE_FIELDS = new Set(['childIds', 'activeChildId']);
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'chat name',
+  systemPrompt: 'system prompt',
+  options: 'generation settings',
+  contextStrategy: 'context strategy',
+  contextSummary: 'context summary',
+  format: 'reply format',
+  provider: 'provider',
+  model: 'model',
+  compareModels: 'compared models',
+  knowledge: 'documents',
+  think: 'thinking',
+  excludeThinking: 'reasoning in context',
+  keepAlive: 'keep-alive time'
+};
+
+const isEqual = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const describeNode = (node: MessageNode) => {
+  const text = node.content.trim().replace(/\s+/g, ' ');
+  return `${node.role === 'user' ? 'your message' : 'reply'} "${text.length > 30 ? `${text.slice(0, 29)}…` : text}"`;
+};
+
+// Merge plain fields of two versions of an object against their common base
+const mergeFields = <T extends object>(
+  base: T | undefined,
+  local: T,
+  remote: T,
+  skip: Set<string>,
+  remoteWins: boolean
+): { merged: T; conflicting: string[] } => {
+  const merged = { ...local } as Record<string, unknown>;
+  const conflicting: string[] = [];
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  const [baseValues, localValues, remoteValues] = [base ?? {}, local, remote] as Record<string, unknown>[];
+
+  keys.forEach(key => {
+    if (skip.has(key)) return;
+    const [baseValue, localValue, remoteValue] = [baseValues[key], localValues[key], remoteValues[key]];
+    if (isEqual(localValue, remoteValue) || (base && isEqual(remoteValue, baseValue))) return;
+
+    if (!base || !isEqual(localValue, baseValue)) {
+      conflicting.push(key);
+      if (!remoteWins) return;
+    }
+    merged[key] = remoteValue;
+  });
+  return { merged: merged as T, conflicting };
+};
+
+// Children from both sides, in creation order so both windows agree on it
+const mergeChildIds = (local: string[], remote: string[], nodes: Record<string, MessageNode>) => {
+  if (isEqual(local, remote)) return local.filter(id => nodes[id]);
+  return [...new Set([...local, ...remote])]
+    .filter(id => nodes[id])
+    .sort((a, b) => nodes[a].createdAt - nodes[b].createdAt || a.localeCompare(b));
+};
+
+export const mergeTabs = (
+  base: Tab | undefined,
+  local: Tab,
+  remote: Tab,
+  { remoteWins, keepLocal = new Set(), keepRemote = new Set() }: MergeOptions
+): { tab: Tab; conflicts: MergeConflict[] } => {
+  const conflicts: MergeConflict[] = [];
+  const fields = mergeFields(base, local, remote, STRUCTURE_FIELDS, remoteWins);
+  fields.conflicting.forEach(key => conflicts.push({ key: `tab.${key}`, label: FIELD_LABELS[key] ?? key }));
+
+  const nodes: Record<string, MessageNode> = {};
+  new Set([...Object.keys(local.nodes), ...Object.keys(remote.nodes)]).forEach(id => {
+    const [baseNode, localNode, remoteNode] = [base?.nodes[id], local.nodes[id], remote.nodes[id]];
+
+    // Only on one side: new there, or deleted on the other side without changes since
+    if (!localNode || !remoteNode) {
+      const node = localNode ?? remoteNode;
+      if (!baseNode || !isEqual(node, baseNode)) nodes[id] = node;
+      return;
+    }
+    if (keepLocal.has(id) || keepRemote.has(id)) {
+      nodes[id] = keepLocal.has(id) ? localNode : remoteNode;
+      return;
+    }
+
+    const { merged, conflicting } = mergeFields(
+      baseNode,
+      localNode,
+      remoteNode,
+      NODE_STRUCTURE_FIELDS,
+      remoteWins
+    );
+    if (baseNode && conflicting.length > 0) {
+      conflicts.push({ key: `node.${id}`, label: describeNode(localNode) });
+    }
+    nodes[id] = merged;
+  });
+
+  // Drop messages whose parent is gone, along with their own replies
+  let removed = true;
+  while (removed) {
+    removed = false;
+    Object.values(nodes).forEach(node => {
+      if (node.parentId && !nodes[node.parentId]) {
+        delete nodes[node.id];
+        removed = true;
+      }
+    });
+  }
+
+  Object.values(nodes).forEach(node => {
+    const childIds = mergeChildIds(local.nodes[node.id]?.childIds ?? [], remote.nodes[node.id]?.childIds ?? [], nodes);
+    // The shown branch is this window's choice unless it no longer exists
+    const activeChildId = [node.activeChildId, remote.nodes[node.id]?.activeChildId, childIds[childIds.length - 1]]
+      .find(childId => childId && childIds.includes(childId));
+    nodes[node.id] = { ...node, childIds, activeChildId };
+  });
+
+  const rootIds = mergeChildIds(local.rootIds, remote.rootIds, nodes);
+  const merged: Tab = {
+    ...fields.merged,
+    nodes,
+    rootIds,
+    activeRootId: [local.activeRootId, remote.activeRootId, rootIds[rootIds.length - 1]]
+      .find(rootId => rootId && rootIds.includes(rootId)),
+    updatedAt: Math.max(local.updatedAt ?? 0, remote.updatedAt ?? 0) || undefined,
+    revision: local.revision
+  };
+
+  // Keep the same object when nothing changed, so it isn't saved again
+  return { tab: isEqual(local, merged) ? local : merged, conflicts };
+};
+
+// Put this window's version of the conflicting settings and messages back
+export const restoreConflicts = (tab: Tab, mine: Tab, conflicts: MergeConflict[]): Tab => {
+  let restored: Tab = { ...tab, nodes: { ...tab.nodes } };
+  conflicts.forEach(({ key }) => {
+    const [kind, id] = [key.slice(0, key.indexOf('.')), key.slice(key.indexOf('.') + 1)];
+    if (kind === 'tab') {
+      restored = { ...restored, [id]: mine[id as keyof Tab] };
+    } else if (mine.nodes[id] && restored.nodes[id]) {
+      const { childIds, activeChildId } = restored.nodes[id];
+      restored.nodes[id] = { ...mine.nodes[id], childIds, activeChildId };
+    }
+  });
+  return restored;
+};
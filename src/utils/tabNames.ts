@@ -0,0 +1,32 @@
+import type { Tab } from '../types/chat';
+
+// Longest title kept from the model's answer
+const MAX_TITLE_LENGTH = 60;
+
+// Instructions for the quiet request that names a chat after its first exchange
+export const TITLE_PROMPT =
+  'Write a short title (at most six words) for the conversation below. ' +
+  'Reply with the title only: no quotes, no punctuation at the end, no explanation.';
+
+// First free "Chat N" name, so deleting tabs never leads to duplicates
+export const nextDefaultTabName = (tabs: Tab[]): string => {
+  const names = new Set(tabs.map(tab => tab.name));
+  let number = 1;
+  while (names.has(`Chat ${number}`)) {
+    number++;
+  }
+  return `Chat ${number}`;
+};
+
+// Turn a model's answer into a tab title, or an empty string if nothing usable is left
+export const cleanTitle = (text: string): string => {
+  const title = text
+    .replace(/<think>[\s\S]*?<\/think>/g, '') // Reasoning models may think out loud first
+    .trim()
+    .split('\n')[0]
+    .replace(/^(title:\s*)/i, '')
+    .replace(/^["'`*#\s]+|["'`*.\s]+$/g, '')
+    .trim();
+
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : title;
+};
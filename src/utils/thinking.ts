@@ -0,0 +1,93 @@
+// Reasoning models write their thinking between <think> and </think> before
+// the answer. These helpers separate the two, also while a reply streams in.
+// Only a block that opens the output counts: tags later in the answer are
+// answer text, such as a model explaining the tags themselves.
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+export interface ThinkingParts {
+  content: string; // The answer
+  thinking: string;
+}
+
+// Length of the longest end of text that could be the start of tag
+const partialTagLength = (text: string, tag: string) => {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (text.endsWith(tag.slice(0, length))) return length;
+  }
+  return 0;
+};
+
+// Split streamed text chunk by chunk. Text that might still turn out to be a
+// tag is held back until the next chunk shows whether it is one.
+export const createThinkingSplitter = () => {
+  let phase: 'start' | 'thinking' | 'answer' = 'start';
+  let buffer = '';
+  // Drop the whitespace that usually follows a tag, even across chunks
+  let trimLeading = false;
+
+  const takeBuffer = () => {
+    const text = trimLeading ? buffer.trimStart() : buffer;
+    if (text) trimLeading = false;
+    buffer = '';
+    return text;
+  };
+
+  return {
+    push(text: string): ThinkingParts {
+      const parts = { content: '', thinking: '' };
+      buffer += text;
+
+      if (phase === 'start') {
+        const start = buffer.trimStart();
+        if (start.startsWith(OPEN_TAG)) {
+          phase = 'thinking';
+          buffer = start.slice(OPEN_TAG.length);
+          trimLeading = true;
+        } else if (!OPEN_TAG.startsWith(start)) {
+          phase = 'answer';
+        } else {
+          return parts; // Only whitespace or part of the tag so far
+        }
+      }
+
+      if (phase === 'thinking') {
+        const index = buffer.indexOf(CLOSE_TAG);
+        if (index === -1) {
+          // Also hold back trailing whitespace, in case the tag comes next
+          const kept = buffer.slice(0, buffer.length - partialTagLength(buffer, CLOSE_TAG)).trimEnd();
+          const rest = buffer.slice(kept.length);
+          buffer = kept;
+          parts.thinking = takeBuffer();
+          buffer = rest;
+          return parts;
+        }
+        const rest = buffer.slice(index + CLOSE_TAG.length);
+        buffer = buffer.slice(0, index).trimEnd();
+        parts.thinking = takeBuffer();
+        buffer = rest;
+        phase = 'answer';
+        trimLeading = true;
+      }
+
+      parts.content = takeBuffer();
+      return parts;
+    },
+
+    // Release any held back text once the stream has ended; an unclosed
+    // block stays reasoning
+    flush(): ThinkingParts {
+      const text = takeBuffer();
+      return phase === 'thinking' ? { content: '', thinking: text.trimEnd() } : { content: text, thinking: '' };
+    }
+  };
+};
+
+// Split a complete reply
+export const splitThinking = (text: string): ThinkingParts => {
+  const splitter = createThinkingSplitter();
+  const first = splitter.push(text);
+  const rest = splitter.flush();
+  return { content: first.content + rest.content, thinking: first.thinking + rest.thinking };
+};
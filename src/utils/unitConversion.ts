@@ -0,0 +1,116 @@
+// Unit conversion for the conversion tool. Each unit is a factor to the base
+// unit of its quantity; temperatures need offsets and are handled separately.
+
+type Quantity = 'length' | 'mass' | 'volume' | 'area' | 'speed' | 'time' | 'data' | 'temperature';
+
+interface Unit {
+  quantity: Quantity;
+  factor: number; // Size of the unit in the quantity's base unit
+  names: string[]; // Accepted spellings, lowercase
+}
+
+const UNITS: Unit[] = [
+  // Length, in meters
+  { quantity: 'length', factor: 1e-3, names: ['mm', 'millimeter', 'millimeters', 'millimetre', 'millimetres'] },
+  { quantity: 'length', factor: 1e-2, names: ['cm', 'centimeter', 'centimeters', 'centimetre', 'centimetres'] },
+  { quantity: 'length', factor: 1, names: ['m', 'meter', 'meters', 'metre', 'metres'] },
+  { quantity: 'length', factor: 1e3, names: ['km', 'kilometer', 'kilometers', 'kilometre', 'kilometres'] },
+  { quantity: 'length', factor: 0.0254, names: ['in', 'inch', 'inches'] },
+  { quantity: 'length', factor: 0.3048, names: ['ft', 'foot', 'feet'] },
+  { quantity: 'length', factor: 0.9144, names: ['yd', 'yard', 'yards'] },
+  { quantity: 'length', factor: 1609.344, names: ['mi', 'mile', 'miles'] },
+  { quantity: 'length', factor: 1852, names: ['nmi', 'nautical mile', 'nautical miles'] },
+
+  // Mass, in kilograms
+  { quantity: 'mass', factor: 1e-6, names: ['mg', 'milligram', 'milligrams'] },
+  { quantity: 'mass', factor: 1e-3, names: ['g', 'gram', 'grams'] },
+  { quantity: 'mass', factor: 1, names: ['kg', 'kilogram', 'kilograms'] },
+  { quantity: 'mass', factor: 1e3, names: ['t', 'tonne', 'tonnes', 'metric ton', 'metric tons'] },
+  { quantity: 'mass', factor: 0.028349523125, names: ['oz', 'ounce', 'ounces'] },
+  { quantity: 'mass', factor: 0.45359237, names: ['lb', 'lbs', 'pound', 'pounds'] },
+  { quantity: 'mass', factor: 6.35029318, names: ['st', 'stone', 'stones'] },
+
+  // Volume, in liters
+  { quantity: 'volume', factor: 1e-3, names: ['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres'] },
+  { quantity: 'volume', factor: 1, names: ['l', 'liter', 'liters', 'litre', 'litres'] },
+  { quantity: 'volume', factor: 1e3, names: ['m3', 'cubic meter', 'cubic meters'] },
+  { quantity: 'volume', factor: 0.00492892159375, names: ['tsp', 'teaspoon', 'teaspoons'] },
+  { quantity: 'volume', factor: 0.01478676478125, names: ['tbsp', 'tablespoon', 'tablespoons'] },
+  { quantity: 'volume', factor: 0.0295735295625, names: ['fl oz', 'fluid ounce', 'fluid ounces'] },
+  { quantity: 'volume', factor: 0.2365882365, names: ['cup', 'cups'] },
+  { quantity: 'volume', factor: 0.473176473, names: ['pt', 'pint', 'pints'] },
+  { quantity: 'volume', factor: 0.946352946, names: ['qt', 'quart', 'quarts'] },
+  { quantity: 'volume', factor: 3.785411784, names: ['gal', 'gallon', 'gallons'] },
+
+  // Area, in square meters
+  { quantity: 'area', factor: 1e-4, names: ['cm2', 'square centimeter', 'square centimeters'] },
+  { quantity: 'area', factor: 1, names: ['m2', 'square meter', 'square meters'] },
+  { quantity: 'area', factor: 1e6, names: ['km2', 'square kilometer', 'square kilometers'] },
+  { quantity: 'area', factor: 0.09290304, names: ['ft2', 'sq ft', 'square foot', 'square feet'] },
+  { quantity: 'area', factor: 1e4, names: ['ha', 'hectare', 'hectares'] },
+  { quantity: 'area', factor: 4046.8564224, names: ['acre', 'acres'] },
+
+  // Speed, in meters per second
+  { quantity: 'speed', factor: 1, names: ['m/s', 'meters per second'] },
+  { quantity: 'speed', factor: 1 / 3.6, names: ['km/h', 'kph', 'kilometers per hour'] },
+  { quantity: 'speed', factor: 0.44704, names: ['mph', 'miles per hour'] },
+  { quantity: 'speed', factor: 1852 / 3600, names: ['kn', 'knot', 'knots'] },
+
+  // Time, in seconds
+  { quantity: 'time', factor: 1e-3, names: ['ms', 'millisecond', 'milliseconds'] },
+  { quantity: 'time', factor: 1, names: ['s', 'sec', 'second', 'seconds'] },
+  { quantity: 'time', factor: 60, names: ['min', 'minute', 'minutes'] },
+  { quantity: 'time', factor: 3600, names: ['h', 'hr', 'hour', 'hours'] },
+  { quantity: 'time', factor: 86400, names: ['d', 'day', 'days'] },
+  { quantity: 'time', factor: 604800, names: ['wk', 'week', 'weeks'] },
+
+  // Data, in bytes
+  { quantity: 'data', factor: 1 / 8, names: ['bit', 'bits'] },
+  { quantity: 'data', factor: 1, names: ['b', 'byte', 'bytes'] },
+  { quantity: 'data', factor: 1e3, names: ['kb', 'kilobyte', 'kilobytes'] },
+  { quantity: 'data', factor: 1e6, names: ['mb', 'megabyte', 'megabytes'] },
+  { quantity: 'data', factor: 1e9, names: ['gb', 'gigabyte', 'gigabytes'] },
+  { quantity: 'data', factor: 1e12, names: ['tb', 'terabyte', 'terabytes'] },
+  { quantity: 'data', factor: 1024, names: ['kib', 'kibibyte', 'kibibytes'] },
+  { quantity: 'data', factor: 1024 ** 2, names: ['mib', 'mebibyte', 'mebibytes'] },
+  { quantity: 'data', factor: 1024 ** 3, names: ['gib', 'gibibyte', 'gibibytes'] },
+
+  // Temperature; the factor is unused
+  { quantity: 'temperature', factor: 1, names: ['c', '°c', 'celsius'] },
+  { quantity: 'temperature', factor: 1, names: ['f', '°f', 'fahrenheit'] },
+  { quantity: 'temperature', factor: 1, names: ['k', 'kelvin'] }
+];
+
+const findUnit = (name: string): Unit => {
+  const normalized = name.trim().toLowerCase().replace(/\s+/g, ' ').replace(/^degrees? /, '');
+  const unit = UNITS.find(candidate => candidate.names.includes(normalized));
+  if (!unit) {
+    throw new Error(`Unknown unit "${name}"`);
+  }
+  return unit;
+};
+
+const toKelvin = (value: number, unit: Unit) => {
+  if (unit.names.includes('celsius')) return value + 273.15;
+  if (unit.names.includes('fahrenheit')) return (value - 32) * 5 / 9 + 273.15;
+  return value;
+};
+
+const fromKelvin = (value: number, unit: Unit) => {
+  if (unit.names.includes('celsius')) return value - 273.15;
+  if (unit.names.includes('fahrenheit')) return (value - 273.15) * 9 / 5 + 32;
+  return value;
+};
+
+// Convert a value between two units of the same quantity, e.g. 5 "mi" to "km"
+export const convertUnit = (value: number, from: string, to: string): number => {
+  const fromUnit = findUnit(from);
+  const toUnit = findUnit(to);
+  if (fromUnit.quantity !== toUnit.quantity) {
+    throw new Error(`Can't convert ${fromUnit.quantity} (${from}) to ${toUnit.quantity} (${to})`);
+  }
+
+  return fromUnit.quantity === 'temperature'
+    ? fromKelvin(toKelvin(value, fromUnit), toUnit)
+    : value * fromUnit.factor / toUnit.factor;
+};